@@ -0,0 +1,51 @@
+// Browser extension that opens the reader over the current tab, like the bookmarklet
+// (src/lib/bookmarklet.ts): the toolbar button or Alt+Shift+R reads the selection or the
+// page's article, and the context menu reads the selection. Load this folder as an unpacked
+// extension after setting READER_ORIGIN to where the reader is deployed.
+
+const READER_ORIGIN = 'http://localhost:3000';
+
+const MENU_ID = 'zoomer-read-selection';
+
+// Runs in the tab: load the reader's overlay script (public/overlay.js). Resolves to what
+// the tab would share instead when the page's security policy refuses the script.
+function loadOverlay(origin) {
+  return new Promise((resolve) => {
+    const script = document.createElement('script');
+    script.src = `${origin}/overlay.js`;
+    script.onload = () => {
+      script.remove();
+      resolve(null);
+    };
+    script.onerror = () => {
+      script.remove();
+      const text = String(getSelection()).trim();
+      resolve(text ? { title: document.title, text } : { url: location.href });
+    };
+    document.documentElement.append(script);
+  });
+}
+
+async function openReader(tab) {
+  if (tab?.id === undefined) return;
+  let fallback;
+  try {
+    const [injection] = await chrome.scripting.executeScript({ target: { tabId: tab.id }, func: loadOverlay, args: [READER_ORIGIN] });
+    fallback = injection?.result;
+  } catch {
+    // Browser pages and the web store can't be scripted; import the article from its address
+    fallback = /^https?:/.test(tab.url ?? '') ? { url: tab.url } : null;
+  }
+  // The reader's share target opens shared text or imports a shared address
+  if (fallback) chrome.tabs.create({ url: `${READER_ORIGIN}/?${new URLSearchParams(fallback)}`, index: tab.index + 1 });
+}
+
+chrome.runtime.onInstalled.addListener(() => {
+  chrome.contextMenus.create({ id: MENU_ID, title: 'Speed-read selection', contexts: ['selection'] });
+});
+
+chrome.action.onClicked.addListener(openReader);
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (info.menuItemId === MENU_ID) openReader(tab);
+});
@@ -1,8 +1,14 @@
 import type { NextConfig } from "next";
 
+// Names this build, so the service worker can keep each deploy's files in a cache of its own
+const buildId = Date.now().toString(36);
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
 };
 
 export default nextConfig;
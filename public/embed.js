@@ -0,0 +1,145 @@
+// <zoomer-reader> element that puts the speed reader on any page:
+//
+//   <script src="https://<reader>/embed.js" defer></script>
+//   <zoomer-reader wpm="350">Text to read, or…</zoomer-reader>
+//   <zoomer-reader selector="article main" style="height: 240px; --zoomer-focal: #7c3aed"></zoomer-reader>
+//
+// The element shows the reader's /embed page in an iframe and drives it with the postMessage
+// commands in src/lib/embed.ts. From script:
+//   reader.play(), reader.pause(), reader.seek(index), reader.load(text, index), reader.wpm = 400
+//   reader.index, reader.total, reader.playing: the state last reported by the reader
+// It fires 'ready', 'progress', 'play', 'pause' and 'end' events with that state as `detail`,
+// and 'close' when the user presses Escape in the reader.
+// The custom properties --zoomer-background, --zoomer-text, --zoomer-focal, --zoomer-accent
+// and --zoomer-font theme it; call reader.updateTheme() after changing them.
+
+(() => {
+  const SOURCE = 'zoomer-reader';
+  const THEME_KEYS = ['background', 'text', 'focal', 'accent', 'font'];
+  const EVENT_TYPES = ['ready', 'progress', 'play', 'pause', 'end', 'close'];
+
+  // The reader is served from wherever this script is
+  const ORIGIN = new URL(document.currentScript?.src ?? window.location.href).origin;
+
+  class ZoomerReader extends HTMLElement {
+    static observedAttributes = ['text', 'selector', 'wpm'];
+
+    #frame;
+    #ready = false;
+    #pending = []; // commands sent before the reader was listening
+    #state = { index: 0, total: 0, wpm: 0, playing: false };
+
+    constructor() {
+      super();
+      const style = document.createElement('style');
+      style.textContent = ':host { display: block; height: 200px; } iframe { display: block; width: 100%; height: 100%; border: 0; }';
+      this.#frame = document.createElement('iframe');
+      this.#frame.title = 'Speed reader';
+      this.attachShadow({ mode: 'open' }).append(style, this.#frame);
+    }
+
+    connectedCallback() {
+      window.addEventListener('message', this.#handleMessage);
+      this.#ready = false;
+      this.#frame.src = `${ORIGIN}/embed`;
+    }
+
+    disconnectedCallback() {
+      window.removeEventListener('message', this.#handleMessage);
+    }
+
+    attributeChangedCallback(name) {
+      if (!this.#ready) return;
+      if (name === 'wpm') this.wpm = Number(this.getAttribute('wpm'));
+      else this.#loadContent();
+    }
+
+    play() {
+      this.#send({ type: 'play' });
+    }
+
+    pause() {
+      this.#send({ type: 'pause' });
+    }
+
+    seek(index) {
+      this.#send({ type: 'seek', index });
+    }
+
+    load(text, index = 0) {
+      this.#send({ type: 'load', text, index, wpm: null });
+    }
+
+    get wpm() {
+      return this.#state.wpm;
+    }
+
+    set wpm(wpm) {
+      if (Number.isFinite(wpm) && wpm > 0) this.#send({ type: 'speed', wpm });
+    }
+
+    get index() {
+      return this.#state.index;
+    }
+
+    get total() {
+      return this.#state.total;
+    }
+
+    get playing() {
+      return this.#state.playing;
+    }
+
+    // Send the --zoomer-* custom properties in effect on the element to the reader
+    updateTheme() {
+      const style = getComputedStyle(this);
+      const theme = {};
+      for (const key of THEME_KEYS) {
+        const value = style.getPropertyValue(`--zoomer-${key}`).trim();
+        if (value) theme[key] = value;
+      }
+      this.#send({ type: 'theme', theme });
+    }
+
+    // Text from the `text` attribute, the element named by `selector`, or the element's own content
+    #getText() {
+      if (this.hasAttribute('text')) return this.getAttribute('text');
+      const selector = this.getAttribute('selector');
+      if (selector) return document.querySelector(selector)?.innerText ?? '';
+      return this.textContent ?? '';
+    }
+
+    #loadContent() {
+      const wpm = Number(this.getAttribute('wpm'));
+      this.#send({ type: 'load', text: this.#getText().trim(), index: 0, wpm: wpm > 0 ? wpm : null });
+    }
+
+    #send(command) {
+      if (!this.#ready) {
+        this.#pending.push(command);
+        return;
+      }
+      this.#frame.contentWindow?.postMessage({ source: SOURCE, ...command }, ORIGIN);
+    }
+
+    #handleMessage = (event) => {
+      const { data } = event;
+      if (event.source !== this.#frame.contentWindow || event.origin !== ORIGIN) return;
+      if (data?.source !== SOURCE || !EVENT_TYPES.includes(data.type)) return;
+      this.#state = { index: data.index, total: data.total, wpm: data.wpm, playing: data.playing };
+
+      // The reader (re)loaded: give it the theme and text, then anything sent in the meantime
+      if (data.type === 'ready') {
+        this.#ready = true;
+        const pending = this.#pending;
+        this.#pending = [];
+        this.updateTheme();
+        this.#loadContent();
+        pending.forEach((command) => this.#send(command));
+      }
+      this.dispatchEvent(new CustomEvent(data.type, { detail: { ...this.#state } }));
+    };
+  }
+
+  if (!customElements.get('zoomer-reader')) customElements.define('zoomer-reader', ZoomerReader);
+})();
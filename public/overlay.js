@@ -0,0 +1,86 @@
+// Opens the speed reader over the current page, reading the selected text or else the page's
+// main article. Loaded into other sites' pages by the bookmarklet (see src/lib/bookmarklet.ts)
+// and the browser extension; running it again closes the overlay.
+//
+// The reader is the /embed page in an iframe, driven with the postMessage commands in
+// src/lib/embed.ts. The article is found inside the reader, so this only sends the page's HTML.
+
+(() => {
+  const SOURCE = 'zoomer-reader';
+  const HOST_ID = 'zoomer-reader-overlay';
+
+  // The reader is served from wherever this script is
+  const ORIGIN = new URL(document.currentScript?.src ?? window.location.href).origin;
+
+  const existing = document.getElementById(HOST_ID);
+  if (existing) {
+    existing.dispatchEvent(new Event('zoomer-close'));
+    return;
+  }
+
+  // Taken before the overlay is added, so neither includes it
+  const selection = window.getSelection()?.toString().trim() ?? '';
+  const content = selection
+    ? { type: 'load', text: selection, index: 0, wpm: null }
+    : { type: 'loadPage', html: document.documentElement.outerHTML, url: window.location.href };
+  const previousFocus = document.activeElement;
+
+  const host = document.createElement('div');
+  host.id = HOST_ID;
+  const shadow = host.attachShadow({ mode: 'closed' });
+  shadow.innerHTML = `
+    <style>
+      :host { all: initial; }
+      .backdrop { position: fixed; inset: 0; z-index: 2147483647; display: flex; align-items: center; justify-content: center; background: rgb(0 0 0 / 0.6); }
+      .panel { position: relative; width: min(960px, 92vw); height: min(480px, 80vh); border-radius: 16px; overflow: hidden; box-shadow: 0 25px 50px -12px rgb(0 0 0 / 0.5); background: #fff; }
+      iframe { display: block; width: 100%; height: 100%; border: 0; }
+      button { position: absolute; top: 8px; right: 8px; width: 32px; height: 32px; border: 0; border-radius: 8px; background: rgb(0 0 0 / 0.6); color: #fff; font: 16px/1 system-ui, sans-serif; cursor: pointer; }
+    </style>
+    <div class="backdrop">
+      <div class="panel" role="dialog" aria-modal="true" aria-label="Speed reader">
+        <iframe title="Speed reader"></iframe>
+        <button type="button" aria-label="Close">✕</button>
+      </div>
+    </div>
+  `;
+  const backdrop = shadow.querySelector('.backdrop');
+  const frame = shadow.querySelector('iframe');
+
+  const close = () => {
+    window.removeEventListener('message', handleMessage);
+    window.removeEventListener('keydown', handleKeyDown, true);
+    host.remove();
+    if (previousFocus instanceof HTMLElement) previousFocus.focus();
+  };
+
+  const send = (command) => frame.contentWindow?.postMessage({ source: SOURCE, ...command }, ORIGIN);
+
+  // Once the reader is listening, give it the text and the keyboard
+  const handleMessage = (event) => {
+    if (event.source !== frame.contentWindow || event.origin !== ORIGIN || event.data?.source !== SOURCE) return;
+    if (event.data.type === 'ready') {
+      send(content);
+      frame.focus();
+    } else if (event.data.type === 'close') {
+      close();
+    }
+  };
+
+  // Escape while the page (rather than the reader) has focus
+  const handleKeyDown = (event) => {
+    if (event.key !== 'Escape') return;
+    event.stopPropagation();
+    close();
+  };
+
+  backdrop.addEventListener('click', (event) => {
+    if (event.target === backdrop) close();
+  });
+  shadow.querySelector('button').addEventListener('click', close);
+  host.addEventListener('zoomer-close', close);
+  window.addEventListener('message', handleMessage);
+  window.addEventListener('keydown', handleKeyDown, true);
+
+  frame.src = `${ORIGIN}/embed`;
+  document.documentElement.append(host);
+})();
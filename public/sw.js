@@ -0,0 +1,127 @@
+// Service worker that keeps the reader working offline. Saved documents live in IndexedDB
+// already; this caches the app itself: the pages, their scripts and styles, and the fonts,
+// which next/font serves from /_next/static/media.
+
+// One cache per build, named from the build id the worker is registered with; installing a
+// new build's worker fills a new cache and activating it deletes the old one
+const CACHE = `zoomerdigest-${new URL(self.location.href).searchParams.get('build') ?? 'dev'}`;
+
+// Pages cached on install, along with every build file they can load. Next.js gives those
+// hashed names that change with every build, so they're found by following references: the
+// scripts and stylesheets in the HTML, the chunks the scripts load on demand (the file
+// importers, the PDF.js worker, export) and the fonts in the stylesheets, including ones that
+// aren't preloaded (Lexend, for the dyslexia theme).
+const SHELL_PAGES = ['/', '/stats'];
+const SHELL_FILES = ['/manifest.webmanifest', '/icon/192', '/icon/512'];
+
+// Build output never changes under the same URL, so it's served from the cache once fetched
+const IMMUTABLE_PATH = /^\/_next\/static\//;
+
+// Build files named in HTML or a script, e.g. src="/_next/static/chunks/…" or, for chunks
+// loaded on demand, "static/chunks/…"
+const BUILD_FILE_REFERENCE = /(?:\/_next\/)?(static\/(?:chunks|css|media)\/[\w.-]+)/g;
+
+// Files a stylesheet uses, such as fonts; relative to the stylesheet
+const CSS_URL = /url\(\s*["']?([^"')]+)["']?\s*\)/g;
+
+// Build files referenced by the page, script or stylesheet at `url`
+function findAssets(text, url) {
+  const assets = Array.from(text.matchAll(BUILD_FILE_REFERENCE), (match) => `/_next/${match[1]}`);
+  if (url.endsWith('.css')) {
+    for (const [, reference] of text.matchAll(CSS_URL)) {
+      const { pathname } = new URL(reference, new URL(url, self.location.origin));
+      if (IMMUTABLE_PATH.test(pathname)) assets.push(pathname);
+    }
+  }
+  return assets;
+}
+
+async function cacheShell() {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL_FILES);
+  const pending = [];
+  for (const page of SHELL_PAGES) {
+    const response = await fetch(page);
+    if (!response.ok) continue;
+    pending.push(...findAssets(await response.clone().text(), page));
+    await cache.put(page, response);
+  }
+  // Scripts and stylesheets are read in turn for the files they load
+  const seen = new Set();
+  while (pending.length > 0) {
+    const url = pending.pop();
+    if (seen.has(url)) continue;
+    seen.add(url);
+    const response = await fetch(url);
+    if (!response.ok) continue;
+    if (/\.(js|css)$/.test(url)) pending.push(...findAssets(await response.clone().text(), url));
+    await cache.put(url, response);
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+// Drop caches from older versions and take over pages that loaded before the worker did,
+// so the scripts they load from now on are cached too
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+// Pages: the network first, so a new deploy shows up straight away, then the cached copy.
+// Any page falls back to the reader, which is the whole app (e.g. a share target URL).
+async function handleNavigation(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(new URL(request.url).pathname, response.clone());
+    return response;
+  } catch {
+    const cached = await cache.match(new URL(request.url).pathname) ?? await cache.match('/');
+    return cached ?? Response.error();
+  }
+}
+
+// Build files: the cache first, fetching and keeping any that aren't cached yet
+async function handleImmutable(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+// Other same-origin files (icons, manifest): the network, or the cache when offline
+async function handleOther(request) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch {
+    return await cache.match(request) ?? Response.error();
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Article import needs the network, and other origins (analytics) aren't ours to cache
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  // Client-side navigation data; when it fails offline, Next.js falls back to loading the page
+  if (request.headers.has('RSC')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (IMMUTABLE_PATH.test(url.pathname)) {
+    event.respondWith(handleImmutable(request));
+  } else {
+    event.respondWith(handleOther(request));
+  }
+});
@@ -0,0 +1,24 @@
+import { fetchArticle, UrlImportError } from '@/lib/import/url';
+
+// Import a web article: POST { url } → { title, byline, siteName, text } or { error }
+export async function POST(request: Request) {
+  let url: unknown;
+  try {
+    ({ url } = await request.json());
+  } catch {
+    return Response.json({ error: 'Expected a JSON body with a url.' }, { status: 400 });
+  }
+  if (typeof url !== 'string' || !url.trim()) {
+    return Response.json({ error: 'Enter the address of an article to import.' }, { status: 400 });
+  }
+
+  try {
+    const article = await fetchArticle(url);
+    return Response.json(article);
+  } catch (error) {
+    if (error instanceof UrlImportError) {
+      return Response.json({ error: error.message }, { status: error.status });
+    }
+    return Response.json({ error: 'Something went wrong while reading that page.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import EmbeddedReader from "@/components/EmbeddedReader";
+
+export const metadata: Metadata = {
+  title: "Zoomer Digest Reader",
+  description: "The speed reader, for embedding in other pages.",
+  robots: { index: false },
+};
+
+export default function EmbedPage() {
+  return <EmbeddedReader />;
+}
@@ -0,0 +1,33 @@
+import { ImageResponse } from 'next/og';
+
+// App icons for the tab and for installing the app: a red focal letter on a dark square
+const SIZES = [32, 192, 512];
+
+export function generateImageMetadata() {
+  return SIZES.map((size) => ({ id: String(size), size: { width: size, height: size }, contentType: 'image/png' }));
+}
+
+export default async function Icon({ id }: { id: Promise<string> }) {
+  const size = Number(await id);
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: 'linear-gradient(135deg, #18181b, #27272a)',
+          borderRadius: size * 0.2,
+          color: '#ef4444',
+          fontSize: size * 0.7,
+          fontWeight: 700,
+        }}
+      >
+        Z
+      </div>
+    ),
+    { width: size, height: size },
+  );
+}
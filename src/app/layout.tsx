@@ -1,6 +1,7 @@
-import type { Metadata } from "next";
-import { Geist, Geist_Mono } from "next/font/google";
+import type { Metadata, Viewport } from "next";
+import { Geist, Geist_Mono, Lexend } from "next/font/google";
 import { Analytics } from "@vercel/analytics/next";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,9 +14,24 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// Only used by the dyslexia-friendly reader theme, so it isn't preloaded
+const lexend = Lexend({
+  variable: "--font-lexend",
+  subsets: ["latin"],
+  preload: false,
+});
+
 export const metadata: Metadata = {
   title: "Zoomer Digest | Speed Reader",
   description: "The fastest way to read.",
+  appleWebApp: {
+    capable: true,
+    title: "Zoomer Digest",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
 };
 
 export default function RootLayout({
@@ -26,9 +42,10 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body
-        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+        className={`${geistSans.variable} ${geistMono.variable} ${lexend.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerRegistration />
         <Analytics />
       </body>
     </html>
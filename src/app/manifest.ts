@@ -0,0 +1,25 @@
+import type { MetadataRoute } from 'next';
+
+// Lets the reader be installed as an app, and receive text shared from other apps on mobile
+// (the share target opens the reader with the shared text in the query string)
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Zoomer Digest | Speed Reader',
+    short_name: 'Zoomer Digest',
+    description: 'The fastest way to read.',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#09090b',
+    theme_color: '#2563eb',
+    icons: [
+      { src: '/icon/192', sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: '/icon/512', sizes: '512x512', type: 'image/png', purpose: 'any' },
+    ],
+    share_target: {
+      action: '/',
+      method: 'GET',
+      params: { title: 'title', text: 'text', url: 'url' },
+    },
+  };
+}
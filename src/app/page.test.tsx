@@ -0,0 +1,76 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import Home from '@/app/page';
+
+const TEXT = 'One two three. Four five six.';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // jsdom has no layout, so nothing to scroll
+  Element.prototype.scrollIntoView = () => {};
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  localStorage.clear();
+});
+
+// Advance a second at a time, letting the countdown re-render between ticks
+async function advanceSeconds(seconds: number) {
+  for (let i = 0; i < seconds; i++) {
+    await act(async () => {
+      vi.advanceTimersByTime(1000);
+    });
+  }
+}
+
+function startReading() {
+  render(<Home />);
+  fireEvent.change(screen.getByRole('textbox', { name: /text/i }), { target: { value: TEXT } });
+  fireEvent.click(screen.getByRole('button', { name: /Start Reading/ }));
+}
+
+describe('reader live region', () => {
+  it('counts down, then announces the speed rather than every word', async () => {
+    startReading();
+    expect(screen.getByRole('status')).toHaveProperty('textContent', 'Starting in 3');
+
+    await advanceSeconds(3);
+    expect(screen.getByRole('status')).toHaveProperty('textContent', 'Reading at 300 words per minute');
+
+    await act(async () => {
+      vi.advanceTimersByTime(400);
+    });
+    expect(screen.getByRole('status')).toHaveProperty('textContent', 'Reading at 300 words per minute');
+  });
+
+  it('reads out the sentence at the current word when paused, and again after skipping', async () => {
+    startReading();
+    await advanceSeconds(3);
+    fireEvent.click(screen.getByRole('button', { name: 'Pause reading' }));
+    expect(screen.getByRole('status')).toHaveProperty('textContent', 'Paused at word 1 of 6. One two three.');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next sentence' }));
+    expect(screen.getByRole('status')).toHaveProperty('textContent', 'Paused at word 4 of 6. Four five six.');
+  });
+
+  it('only pulses the countdown when motion is allowed', () => {
+    startReading();
+    const number = screen.getByText('3');
+    expect(number.className).toContain('motion-safe:animate-pulse');
+    expect(number.className.split(' ')).not.toContain('animate-pulse');
+  });
+
+  it('has no axe violations while paused', async () => {
+    startReading();
+    await advanceSeconds(3);
+    fireEvent.click(screen.getByRole('button', { name: 'Pause reading' }));
+    vi.useRealTimers();
+    // Contrast needs layout and canvas, which jsdom doesn't have
+    const results = await axe.run(screen.getByRole('region', { name: 'Reader' }), { rules: { 'color-contrast': { enabled: false } } });
+    expect(results.violations).toEqual([]);
+  });
+});
@@ -1,156 +1,360 @@
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-
-// Calculate the focal letter index based on word length
-function getFocalIndex(word: string): number {
-  const length = word.length;
-  
-  // Remove punctuation for length calculation but keep it for display
-  const cleanLength = word.replace(/[^\w]/g, '').length;
-  
-  if (cleanLength <= 2) return 1;
-  if (cleanLength <= 4) return 2;
-  if (cleanLength <= 6) return 3;
-  if (cleanLength <= 9) return 4;
-  if (cleanLength <= 13) return 5;
-  return 6;
-}
+import { useState, useEffect, useEffectEvent, useRef, useCallback, useMemo, useSyncExternalStore } from 'react';
+import Link from 'next/link';
+import { EMPTY_DOCUMENT, getSourceText, parseText } from '@/lib/document';
+import AnchoredWord from '@/components/AnchoredWord';
+import BookmarkletLink from '@/components/BookmarkletLink';
+import ContextPanel from '@/components/ContextPanel';
+import Dialog from '@/components/Dialog';
+import ExportPanel from '@/components/ExportPanel';
+import LibraryPanel from '@/components/LibraryPanel';
+import MarksPanel from '@/components/MarksPanel';
+import QueueCard from '@/components/QueueCard';
+import QueuePanel from '@/components/QueuePanel';
+import QuizPanel from '@/components/QuizPanel';
+import SettingsPanel from '@/components/SettingsPanel';
+import ShortcutsPanel from '@/components/ShortcutsPanel';
+import StudyPanel from '@/components/StudyPanel';
+import StudyReview from '@/components/StudyReview';
+import { CHUNK_PRESETS, DEFAULT_CHUNK_PRESET, type ChunkPresetId } from '@/lib/chunking';
+import {
+  COMMANDS,
+  findButtonCommand,
+  findKeyCommand,
+  formatButton,
+  formatKeyCombo,
+  getKeyCombo,
+  getServerBindings,
+  isTypingTarget,
+  loadBindings,
+  subscribeToBindings,
+  type CommandId,
+} from '@/lib/commands';
+import { watchGamepadButtons } from '@/lib/gamepad';
+import { ACCEPTED_FILE_TYPES, ImportError, importFile, importUrl, type Article } from '@/lib/import';
+import {
+  deleteDocument,
+  getDefaultTitle,
+  getDocument,
+  getOpenDocumentId,
+  listDocuments,
+  saveDocument,
+  setOpenDocumentId,
+  updateProgress,
+  type LibraryDocument,
+} from '@/lib/library';
+import {
+  addMark,
+  deleteDocumentMarks,
+  getDocumentMarks,
+  getSentenceRange,
+  getServerMarks,
+  loadMarks,
+  subscribeToMarks,
+  updateMarkNote,
+  type MarkKind,
+} from '@/lib/marks';
+import {
+  dequeue,
+  enqueue,
+  getQueuedDocuments,
+  getQueueStartPosition,
+  getServerQueue,
+  loadQueue,
+  QUEUE_CARD_SECONDS,
+  subscribeToQueue,
+} from '@/lib/queue';
+import { generateQuiz, saveQuizResult, type QuizQuestion } from '@/lib/quiz';
+import { getEffectiveWpm, getRemainingTime, type ReaderState } from '@/lib/reader/engine';
+import { DEFAULT_RAMP_START } from '@/lib/reader/pacing';
+import { getServerVoices, getVoices, MAX_SPEECH_WPM, MIN_SPEECH_WPM, SpeechPacer, subscribeToVoices } from '@/lib/reader/speech';
+import { useReaderEngine } from '@/lib/reader/useReaderEngine';
+import { getServerSettings, getTimingProfile, loadSettings, subscribeToSettings, THEMES } from '@/lib/settings';
+import {
+  buildShareLink,
+  clearShareLink,
+  clearShareTarget,
+  parseShareLink,
+  parseShareTarget,
+  ShareLinkError,
+  type ShareLink,
+} from '@/lib/share';
+import { saveSession, SessionTracker } from '@/lib/stats';
+import {
+  deleteDocumentPassages,
+  DifficultyTracker,
+  getDuePassages,
+  getReviewText,
+  getServerPassages,
+  loadPassages,
+  markHard,
+  REVIEW_SESSION_SIZE,
+  subscribeToPassages,
+  type HardPassage,
+  type HardReason,
+} from '@/lib/study';
+import { DEFAULT_TIMING_PRESET, TIMING_PRESETS, type TimingPresetId } from '@/lib/timing';
 
-// Check if word ends with punctuation that requires a pause
-function requiresPause(word: string): boolean {
-  return /[.!?;:]$/.test(word);
+// Library title for an imported article, crediting the author when the page names one
+function getArticleTitle(article: Article): string {
+  return article.byline ? `${article.title} — ${article.byline}` : article.title;
 }
 
-// Calculate pause duration multiplier based on punctuation
-function getPauseMultiplier(word: string): number {
-  if (/[.!?]$/.test(word)) return 1.5; // Sentence end - longer pause
-  if (/[;:]$/.test(word)) return 1.2; // Clause separator - medium pause
-  if (/[,]$/.test(word)) return 1.1; // Comma - slight pause
-  return 1.0; // No pause
-}
+export default function Home() {
+  const [inputText, setInputText] = useState('');
+  const [title, setTitle] = useState(''); // title of the imported file, if any
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [articleUrl, setArticleUrl] = useState('');
+  const [docId, setDocId] = useState<string | null>(null); // library id of the document in the reader
+  const [library, setLibrary] = useState<LibraryDocument[]>([]);
+  const [timingPreset, setTimingPreset] = useState<TimingPresetId>(DEFAULT_TIMING_PRESET);
+  const [chunkPreset, setChunkPreset] = useState<ChunkPresetId>(DEFAULT_CHUNK_PRESET);
+  const [rampWords, setRampWords] = useState(0); // warm-up length in words, 0 for none
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [scrubIndex, setScrubIndex] = useState<number | null>(null); // word under the pointer while dragging the progress bar
+  const [status, setStatus] = useState<string | null>(null); // result of the last "Share" click or mark
+  const [narrate, setNarrate] = useState(false); // read aloud, with the display following the voice
+  const [voiceUri, setVoiceUri] = useState(''); // empty for the browser's default voice
+  const [pitch, setPitch] = useState(1);
+  const [narrationError, setNarrationError] = useState<string | null>(null);
+  const [quizAfterReading, setQuizAfterReading] = useState(false);
+  const [studyMode, setStudyMode] = useState(false); // mark sentences that give trouble for later re-reading
+  const [review, setReview] = useState<{ passages: HardPassage[]; finished: boolean } | null>(null); // re-read session in the reader
+  const [quiz, setQuiz] = useState<{ questions: QuizQuestion[]; wpm: number; documentId: string | null } | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showExport, setShowExport] = useState(false); // video or GIF export of the passage around the current word
+  const [showMarks, setShowMarks] = useState(false); // marks list in place of the context panel while paused
+  const [noteDraft, setNoteDraft] = useState<{ markId: string; text: string } | null>(null); // note being typed for a new bookmark
+  const [upNext, setUpNext] = useState<{ entry: LibraryDocument; seconds: number } | null>(null); // title card before the next queued document
+  const lastProgressSaveRef = useRef(0);
+  const sessionRef = useRef<SessionTracker | null>(null); // reading session in progress, for the stats page
+  const toggleRef = useRef<HTMLButtonElement>(null); // play/pause button covering the reader
+  const countdownRef = useRef<HTMLButtonElement>(null);
+  const noteInputRef = useRef<HTMLInputElement>(null);
+  const statusTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined); // clears `status`
+
+  // Playback lives in the engine; the page renders its state and forwards input to it
+  const [engine, reader] = useReaderEngine();
+  const { doc, index: currentIndex, playing: isPlaying, wpm: speed } = reader;
+  // Tokens on screen right now: the chunk containing the current word
+  const { start: chunkStart, end: chunkEnd } = reader.chunk;
+
+  const tokens = doc.tokens;
+  // Speed of the word on screen, below the target while warming up or slowed for a hard sentence
+  const currentWpm = Math.round(getEffectiveWpm(reader, chunkStart));
+
+  const settings = useSyncExternalStore(subscribeToSettings, loadSettings, getServerSettings);
+  const { minWpm, maxWpm, wpmStep, pauses } = settings;
+  const theme = THEMES[settings.theme];
+  const bindings = useSyncExternalStore(subscribeToBindings, loadBindings, getServerBindings);
+  const allMarks = useSyncExternalStore(subscribeToMarks, loadMarks, getServerMarks);
+  const marks = getDocumentMarks(allMarks, docId).filter((mark) => mark.end < tokens.length);
+  const queue = useSyncExternalStore(subscribeToQueue, loadQueue, getServerQueue);
+  const isQueued = docId !== null && queue.includes(docId);
+  const passages = useSyncExternalStore(subscribeToPassages, loadPassages, getServerPassages);
+
+  // Without any installed voices narration isn't offered and reading stays on silent timing
+  const voices = useSyncExternalStore(subscribeToVoices, getVoices, getServerVoices);
+  const canNarrate = voices.length > 0;
+
+  // While reading aloud the speed range narrows to what the voice can keep up with, so the
+  // WPM shown and recorded is the one actually spoken
+  const isNarrating = narrate && canNarrate;
+  const speedMax = isNarrating ? Math.min(maxWpm, MAX_SPEECH_WPM) : maxWpm;
+  const speedMin = isNarrating ? Math.min(Math.max(minWpm, MIN_SPEECH_WPM), speedMax) : minWpm;
+
+  // Keep the engine's speed limits and pauses in line with the settings
+  useEffect(() => engine.setSpeedRange(speedMin, speedMax), [engine, speedMin, speedMax]);
+  // One object per preset and pause change, shared by the engine and the export panel's frames
+  const timingProfile = useMemo(() => getTimingProfile(timingPreset, pauses), [timingPreset, pauses]);
+  useEffect(() => engine.setTimingProfile(timingProfile), [engine, timingProfile]);
+
+  // Let speech pace the reader while narration is on
+  useEffect(() => {
+    if (!isNarrating) return;
+    engine.setPacer(new SpeechPacer({
+      voice: voices.find((voice) => voice.voiceURI === voiceUri) ?? null,
+      pitch,
+      onError: (message) => {
+        setNarrate(false);
+        setNarrationError(message);
+      },
+    }));
+    return () => engine.setPacer(null);
+  }, [engine, isNarrating, voices, voiceUri, pitch]);
+
+  // Close the current reading session and save it to the stats history
+  const endSession = useCallback(() => {
+    const session = sessionRef.current?.finish(Date.now());
+    sessionRef.current = null;
+    if (session) saveSession(session);
+  }, []);
+
+  // Quiz on the passage once playback reaches the last word. The score is filed under the
+  // speed the text was read at on average, not the speed the ramp ended on. Subscribed before
+  // the session's own end listener below, so the session is still open here.
+  const startQuiz = useEffectEvent((state: ReaderState) => {
+    if (!quizAfterReading || review) return;
+    const questions = generateQuiz(state.doc);
+    const wpm = sessionRef.current?.getAverageWpm(Date.now()) ?? state.wpm;
+    if (questions.length > 0) setQuiz({ questions, wpm, documentId: docId });
+  });
+
+  useEffect(() => engine.on('end', (state) => startQuiz(state)), [engine]);
+
+  // Ask how the passages went once a re-read session reaches its end
+  const finishReview = useEffectEvent(() => {
+    if (review) setReview({ ...review, finished: true });
+  });
 
-// Split word into parts: before focal, focal, after focal
-// Preserves original capitalization
-function splitWord(word: string): { before: string; focal: string; after: string } {
-  const cleanWord = word.replace(/[^\w]/g, '');
-  
-  // If no letters found, just return the word as-is
-  if (cleanWord.length === 0) {
-    return {
-      before: word.slice(0, Math.floor(word.length / 2)),
-      focal: word[Math.floor(word.length / 2)] || '',
-      after: word.slice(Math.floor(word.length / 2) + 1),
+  useEffect(() => engine.on('end', () => finishReview()), [engine]);
+
+  // In study mode, sentences the reader goes back to, stops on or slows down for are marked
+  // as hard, to be re-read on later days
+  useEffect(() => {
+    if (!studyMode || !docId) return;
+    const tracker = new DifficultyTracker(engine.getState().wpm);
+    const mark = (index: number | null, reason: HardReason) => {
+      if (index !== null) markHard(engine.getState().doc, docId, index, reason);
     };
-  }
-  
-  const focalIndex = getFocalIndex(word);
-  
-  // Find the actual position in the original word (accounting for punctuation)
-  let charCount = 0;
-  let focalPos = -1;
-  const letterPositions: number[] = []; // Track all letter positions
-  
-  for (let i = 0; i < word.length; i++) {
-    if (/[\w]/.test(word[i])) {
-      letterPositions.push(i);
-      charCount++;
-      if (charCount === focalIndex) {
-        focalPos = i;
-      }
-    }
-  }
-  
-  // Fallback: use first letter if calculation failed
-  if (focalPos === -1) {
-    focalPos = letterPositions[0] ?? 0;
-  }
-  
-  // Simply split the word at the focal position, preserving original capitalization
-  return {
-    before: word.slice(0, focalPos),
-    focal: word[focalPos] || '',
-    after: word.slice(focalPos + 1),
+    const unsubscribes = [
+      engine.on('pause', (state) => tracker.pause(Date.now(), state.index)),
+      engine.on('play', () => mark(tracker.resume(Date.now()), 'pause')),
+      engine.on('seek', ({ from, to }) => mark(tracker.seek(from, to), 'rewind')),
+      engine.on('speed', ({ wpm }) => {
+        const { index, playing } = engine.getState();
+        mark(tracker.setSpeed(wpm, index, playing), 'slowdown');
+      }),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [engine, studyMode, docId]);
+
+  // Feed playback events into the current session
+  useEffect(() => {
+    const unsubscribes = [
+      engine.on('play', (state) => {
+        if (!sessionRef.current) sessionRef.current = new SessionTracker(docId, Date.now());
+        sessionRef.current.play(Date.now(), state.wpm);
+      }),
+      engine.on('pause', () => sessionRef.current?.pause(Date.now())),
+      engine.on('speed', ({ wpm }) => sessionRef.current?.setSpeed(wpm)),
+      engine.on('advance', ({ chunk }) => sessionRef.current?.advance(chunk.end - chunk.start + 1)),
+      engine.on('seek', ({ from, to }) => {
+        if (to < from) sessionRef.current?.rewind();
+      }),
+      engine.on('end', endSession),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [engine, docId, endSession]);
+
+  // Leaving or refreshing the page ends the session
+  useEffect(() => {
+    window.addEventListener('pagehide', endSession);
+    return () => window.removeEventListener('pagehide', endSession);
+  }, [endSession]);
+
+  const hasStartedReading = tokens.length > 0;
+
+  // Show a status message for `ms`; a newer one replaces it along with its timer
+  const showStatus = (message: string, ms: number) => {
+    clearTimeout(statusTimeoutRef.current);
+    setStatus(message);
+    statusTimeoutRef.current = setTimeout(() => setStatus(null), ms);
   };
-}
 
-export default function Home() {
-  const [inputText, setInputText] = useState('');
-  const [words, setWords] = useState<string[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [speed, setSpeed] = useState(300); // words per minute (WPM)
-  const [countdown, setCountdown] = useState<number | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const countdownRef = useRef<NodeJS.Timeout | null>(null);
-  const countdownStateRef = useRef<number | null>(null);
-
-  // Parse text into words
-  const parseText = (text: string): string[] => {
-    // Split by whitespace and hyphens, then filter out empty strings
-    // This handles hyphenated words like "well-known" by splitting them into separate words
-    return text
-      .trim()
-      .split(/[\s-]+/)
-      .filter(word => word.length > 0);
+  useEffect(() => () => clearTimeout(statusTimeoutRef.current), []);
+
+  // Mark the words on screen, or the sentence they're in, without interrupting playback
+  const markCurrent = (kind: MarkKind) => {
+    if (!docId || tokens.length === 0) return null;
+    const [start, end] = kind === 'highlight' ? getSentenceRange(doc, chunkStart) : [chunkStart, chunkEnd];
+    const mark = addMark(docId, kind, start, end);
+    showStatus(kind === 'highlight' ? 'Sentence highlighted' : 'Bookmarked', 2000);
+    return mark;
   };
 
-  // Calculate delay with punctuation pauses
-  const getWordDelay = useCallback((word: string): number => {
-    const baseDelay = (60 / speed) * 1000;
-    const multiplier = getPauseMultiplier(word);
-    return baseDelay * multiplier;
-  }, [speed]);
-
-  // Toggle play/pause
-  const togglePlay = useCallback(() => {
-    if (words.length === 0) return;
-    setIsPlaying((prev) => !prev);
-  }, [words.length]);
-
-  // Adjust speed
-  const adjustSpeed = useCallback((delta: number) => {
-    setSpeed((prev) => {
-      const newSpeed = prev + delta;
-      // Clamp between min and max
-      return Math.max(100, Math.min(1000, newSpeed));
-    });
-  }, []);
+  // Run a command from a key press or gamepad button
+  const runCommand = useEffectEvent((command: CommandId) => {
+    switch (command) {
+      case 'togglePlay':
+        // If countdown is active, skip it and start reading
+        if (countdown !== null) {
+          setCountdown(null);
+          engine.play();
+        } else {
+          engine.toggle();
+        }
+        break;
+      case 'speedUp':
+        engine.adjustSpeed(wpmStep);
+        break;
+      case 'speedDown':
+        engine.adjustSpeed(-wpmStep);
+        break;
+      case 'previousWord':
+        engine.skip('word', -1);
+        break;
+      case 'nextWord':
+        engine.skip('word', 1);
+        break;
+      case 'previousSentence':
+        engine.skip('sentence', -1);
+        break;
+      case 'nextSentence':
+        engine.skip('sentence', 1);
+        break;
+      case 'previousParagraph':
+        engine.skip('paragraph', -1);
+        break;
+      case 'nextParagraph':
+        engine.skip('paragraph', 1);
+        break;
+      case 'bookmark':
+      case 'highlight':
+        markCurrent(command);
+        break;
+      case 'addNote': {
+        const mark = markCurrent('bookmark');
+        if (mark) setNoteDraft({ markId: mark.id, text: mark.note });
+        break;
+      }
+      case 'showHelp':
+        setShowShortcuts(true);
+        break;
+    }
+  });
 
-  const hasStartedReading = words.length > 0;
+  // Commands are ignored while typing, and while an overlay has the user's attention
+  const isInputBlocked = () => quiz !== null || showSettings || showShortcuts || showExport || upNext !== null;
 
   // Keyboard shortcuts
+  const handleKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (isTypingTarget(e.target) || isInputBlocked()) return;
+    const combo = getKeyCombo(e);
+    const command = combo ? findKeyCommand(bindings, combo) : null;
+    if (!command) return;
+    e.preventDefault();
+    runCommand(command);
+  });
+
   useEffect(() => {
-    const handleKeyPress = (e: KeyboardEvent) => {
-      // Don't interfere with typing in textarea
-      if (e.target instanceof HTMLTextAreaElement) return;
-
-      switch (e.key) {
-        case ' ':
-          e.preventDefault();
-          // If countdown is active, skip it and start reading
-          if (countdownStateRef.current !== null) {
-            setCountdown(null);
-            setIsPlaying(true);
-          } else {
-            togglePlay();
-          }
-          break;
-        case 'ArrowLeft':
-          e.preventDefault();
-          adjustSpeed(-50); // Decrease speed by 50 WPM
-          break;
-        case 'ArrowRight':
-          e.preventDefault();
-          adjustSpeed(50); // Increase speed by 50 WPM
-          break;
-      }
-    };
+    const listener = (e: KeyboardEvent) => handleKeyDown(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  // Gamepad buttons, including foot pedals that present as gamepads
+  const handleGamepadButton = useEffectEvent((button: number) => {
+    if (isInputBlocked()) return;
+    const command = findButtonCommand(bindings, button);
+    if (command) runCommand(command);
+  });
 
-    window.addEventListener('keydown', handleKeyPress);
-    return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [togglePlay, adjustSpeed]);
+  useEffect(() => watchGamepadButtons((button) => handleGamepadButton(button)), []);
 
   // Prevent body scrolling when reading or paused
   useEffect(() => {
@@ -165,101 +369,476 @@ export default function Home() {
     };
   }, [hasStartedReading]);
 
-  // Start/stop reading with punctuation pauses
+  // Focus follows the reader: the countdown while it runs, then the play/pause button. On the
+  // way out it goes back to whatever started reading.
+  const isCountingDown = countdown !== null;
+  useEffect(() => {
+    if (!hasStartedReading) return;
+    const previous = document.activeElement;
+    return () => {
+      if (previous instanceof HTMLElement && previous.isConnected) previous.focus();
+    };
+  }, [hasStartedReading]);
+
+  useEffect(() => {
+    if (!hasStartedReading) return;
+    (isCountingDown ? countdownRef : toggleRef).current?.focus();
+  }, [hasStartedReading, isCountingDown]);
+
+  const isTakingNote = noteDraft !== null;
   useEffect(() => {
-    if (isPlaying && words.length > 0 && currentIndex < words.length) {
-      const currentWord = words[currentIndex];
-      const delay = getWordDelay(currentWord);
-
-      timeoutRef.current = setTimeout(() => {
-        setCurrentIndex((prev) => {
-          if (prev >= words.length - 1) {
-            setIsPlaying(false);
-            return prev;
-          }
-          return prev + 1;
-        });
-      }, delay);
+    if (isTakingNote) noteInputRef.current?.focus();
+  }, [isTakingNote]);
+
+  const refreshLibrary = useCallback(() => {
+    listDocuments()
+      .then(setLibrary)
+      .catch(() => {}); // IndexedDB unavailable (e.g. some private browsing modes); the library stays empty
+  }, []);
+
+  // Load a saved document into the reader, paused at the word where it was left
+  const openDocument = useCallback((entry: LibraryDocument) => {
+    endSession();
+    setInputText(entry.text);
+    setTitle(entry.title);
+    engine.load(parseText(entry.text), entry.position);
+    engine.setSpeed(entry.speed);
+    setDocId(entry.id);
+    setOpenDocumentId(entry.id);
+    setCountdown(null);
+  }, [engine, endSession]);
+
+  // Show the title card for the first queued document other than `skipId`, or end the queue
+  const showNextInQueue = (skipId: string | null) => {
+    const nextId = loadQueue().find((id) => id !== skipId);
+    if (!nextId) {
+      setUpNext(null);
+      return;
+    }
+    getDocument(nextId)
+      .then((entry) => {
+        if (entry) {
+          setUpNext({ entry, seconds: QUEUE_CARD_SECONDS });
+        } else {
+          // Deleted from the library in another tab
+          dequeue(nextId);
+          showNextInQueue(skipId);
+        }
+      })
+      .catch(() => setUpNext(null));
+  };
+
+  // Open a queued document and start it straight away, keeping the speed the queue was being
+  // read at; the title card was its countdown
+  const playQueued = (entry: LibraryDocument) => {
+    const wpm = engine.getState().wpm;
+    setUpNext(null);
+    openDocument({ ...entry, position: getQueueStartPosition(entry) });
+    engine.setSpeed(wpm);
+    engine.play();
+  };
+
+  // Leave the rest of the current document and move on to the next one in the queue
+  const skipQueued = (id: string) => {
+    engine.pause();
+    dequeue(id);
+    showNextInQueue(id);
+  };
+
+  // A queued document that's been read to the end leaves the queue, and the next one is lined up
+  const continueQueue = useEffectEvent(() => {
+    if (!docId || !isQueued) return;
+    dequeue(docId);
+    showNextInQueue(docId);
+  });
+
+  useEffect(() => engine.on('end', () => continueQueue()), [engine]);
+
+  // Count the title card down, then start the document. It waits while a quiz is open.
+  const tickQueueCard = useEffectEvent(() => {
+    if (!upNext) return;
+    if (upNext.seconds > 1) {
+      setUpNext({ ...upNext, seconds: upNext.seconds - 1 });
     } else {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-        timeoutRef.current = null;
-      }
+      playQueued(upNext.entry);
     }
+  });
 
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-    };
-  }, [isPlaying, words, currentIndex, getWordDelay]);
+  useEffect(() => {
+    if (!upNext || quiz !== null) return;
+    const timeout = setTimeout(() => tickQueueCard(), 1000);
+    return () => clearTimeout(timeout);
+  }, [upNext, quiz]);
+
+  // Save the reading position, at most every couple of seconds while playing
+  useEffect(() => {
+    if (!docId) return;
+    const now = Date.now();
+    if (isPlaying && now - lastProgressSaveRef.current < 2000) return;
+    lastProgressSaveRef.current = now;
+    updateProgress(docId, currentIndex, speed).catch(() => {});
+  }, [docId, currentIndex, speed, isPlaying]);
+
+  // Start playback after the countdown, if there is one
+  const countDownToPlay = () => {
+    if (settings.countdownSeconds > 0) {
+      setCountdown(settings.countdownSeconds);
+    } else {
+      engine.play();
+    }
+  };
+
+  const saveNewDocument = async (id: string, documentTitle: string, text: string, wordCount: number) => {
+    const now = Date.now();
+    await saveDocument({
+      id,
+      title: documentTitle,
+      text,
+      wordCount,
+      position: 0,
+      speed: engine.getState().wpm,
+      createdAt: now,
+      updatedAt: now,
+    });
+    refreshLibrary();
+  };
+
+  // Start (or resume) reading `text`, adding it to the library if it's new. A share link
+  // passes the position and speed to start at; otherwise reading resumes where it was left.
+  const startReading = (
+    text: string,
+    documentTitle: string,
+    { entries = library, position, wpm }: { entries?: LibraryDocument[]; position?: number; wpm?: number | null } = {},
+  ) => {
+    const isOpen = doc.text === text;
+    const saved = (docId && isOpen ? entries.find((entry) => entry.id === docId) : undefined)
+      ?? entries.find((entry) => entry.text === text);
+    const parsed = isOpen ? doc : parseText(text);
+    const resumeAt = position ?? (isOpen ? currentIndex : saved?.position ?? 0);
+    const id = saved?.id ?? crypto.randomUUID();
+    if (!isOpen) endSession();
+
+    engine.load(parsed, resumeAt >= parsed.tokens.length - 1 ? 0 : resumeAt);
+    if (wpm) engine.setSpeed(wpm);
+    setDocId(id);
+    setOpenDocumentId(id);
+    countDownToPlay();
+
+    if (!saved) saveNewDocument(id, documentTitle, text, parsed.tokens.length).catch(() => {});
+  };
+
+  // Add text to the end of the reading queue without opening it, saving it to the library first if it's new
+  const queueText = (text: string, documentTitle: string) => {
+    const saved = library.find((entry) => entry.text === text);
+    if (saved) {
+      enqueue(saved.id);
+      return;
+    }
+    const id = crypto.randomUUID();
+    saveNewDocument(id, documentTitle, text, parseText(text).tokens.length)
+      .then(() => enqueue(id))
+      .catch(() => {});
+  };
+
+  const handleQueueText = () => {
+    if (!inputText.trim()) return;
+    queueText(inputText, title || getDefaultTitle(inputText));
+    setInputText('');
+    setTitle('');
+  };
 
   const handleStart = () => {
     if (inputText.trim()) {
-      const parsedWords = parseText(inputText);
-      setWords(parsedWords);
-      setCurrentIndex(0);
-      setIsPlaying(false);
-      setCountdown(3);
+      startReading(inputText, title || getDefaultTitle(inputText));
+    }
+  };
+
+  // Carry on with whatever is loaded (a library document or a review session) after a pause,
+  // from the top if it was read to the end
+  const handleResume = () => {
+    if (currentIndex >= doc.tokens.length - 1) engine.seek(0);
+    countDownToPlay();
+  };
+
+  // Leave the reader for the input screen
+  const closeReader = () => {
+    endSession();
+    engine.load(EMPTY_DOCUMENT);
+    setDocId(null);
+    setOpenDocumentId(null);
+    setReview(null);
+    refreshLibrary();
+  };
+
+  // Re-read the hard passages that are due, on their own as one short text. It isn't saved to
+  // the library, and nothing in it is marked as hard.
+  const startReview = () => {
+    const due = getDuePassages(loadPassages()).slice(0, REVIEW_SESSION_SIZE);
+    if (due.length === 0) return;
+    endSession();
+    engine.load(parseText(getReviewText(due)));
+    setDocId(null);
+    setOpenDocumentId(null);
+    setReview({ passages: due, finished: false });
+    countDownToPlay();
+  };
+
+  const handleDeleteDocument = (id: string) => {
+    if (id === docId) setDocId(null);
+    deleteDocumentMarks(id);
+    deleteDocumentPassages(id);
+    dequeue(id);
+    deleteDocument(id)
+      .then(refreshLibrary)
+      .catch(() => {});
+  };
+
+  // Extract text from a picked or dropped file into the input
+  const handleImport = async (file: File) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const imported = await importFile(file);
+      setInputText(imported.text);
+      setTitle(imported.title);
+    } catch (error) {
+      setImportError(error instanceof ImportError ? error.message : `Couldn't read ${file.name}.`);
+    }
+    setIsImporting(false);
+  };
+
+  // Fetch a web article and go straight into the reader with it
+  const importArticle = async (url: string, entries = library) => {
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const article = await importUrl(url);
+      const articleTitle = getArticleTitle(article);
+      setInputText(article.text);
+      setTitle(articleTitle);
+      setArticleUrl('');
+      startReading(article.text, articleTitle, { entries });
+    } catch (error) {
+      setImportError(error instanceof ImportError ? error.message : 'Couldn\'t import that article.');
+    }
+    setIsImporting(false);
+  };
+
+  const handleImportUrl = () => {
+    if (articleUrl.trim()) importArticle(articleUrl);
+  };
+
+  // Fetch a web article into the reading queue, leaving the reader and the input as they are
+  const handleQueueUrl = async () => {
+    if (!articleUrl.trim()) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const article = await importUrl(articleUrl);
+      queueText(article.text, getArticleTitle(article));
+      setArticleUrl('');
+    } catch (error) {
+      setImportError(error instanceof ImportError ? error.message : 'Couldn\'t import that article.');
     }
+    setIsImporting(false);
   };
 
-  // Sync countdown state to ref
+  // Open the share link in the address bar, if any. Returns false when there isn't one.
+  const openShareLink = useEffectEvent((entries: LibraryDocument[]): boolean => {
+    let link: ShareLink | null;
+    try {
+      link = parseShareLink(window.location.hash);
+    } catch (error) {
+      clearShareLink();
+      closeReader();
+      setImportError(error instanceof ShareLinkError ? error.message : 'This link couldn\'t be opened.');
+      return true;
+    }
+    if (!link) return false;
+    clearShareLink();
+
+    const { source, word, wpm } = link;
+    const entry = source.kind === 'document' ? entries.find((candidate) => candidate.id === source.documentId) : undefined;
+    if (source.kind === 'document' && !entry) {
+      closeReader();
+      setImportError('This link points to a document saved in a different browser, so it can\'t be opened here.');
+      return true;
+    }
+    const text = entry?.text ?? (source.kind === 'text' ? source.text : '');
+    const linkTitle = entry?.title ?? ((source.kind === 'text' && source.title) || getDefaultTitle(text));
+    setInputText(text);
+    setTitle(linkTitle);
+    setImportError(null);
+    startReading(text, linkTitle, { entries, position: word, wpm });
+    return true;
+  });
+
+  // Open what another app shared to the installed app (see the manifest's share target)
+  const openSharedContent = useEffectEvent((entries: LibraryDocument[]): boolean => {
+    const shared = parseShareTarget(window.location.search);
+    if (!shared) return false;
+    clearShareTarget();
+    if (shared.kind === 'url') {
+      importArticle(shared.url, entries);
+      return true;
+    }
+    const sharedTitle = shared.title || getDefaultTitle(shared.text);
+    setInputText(shared.text);
+    setTitle(sharedTitle);
+    startReading(shared.text, sharedTitle, { entries });
+    return true;
+  });
+
+  // Open a share link or shared content, or else reopen whatever was in the reader before the page was refreshed
   useEffect(() => {
-    countdownStateRef.current = countdown;
-  }, [countdown]);
+    const openId = getOpenDocumentId();
+    listDocuments()
+      .catch(() => [] as LibraryDocument[])
+      .then((entries) => {
+        setLibrary(entries);
+        if (openShareLink(entries) || openSharedContent(entries)) return;
+        const open = entries.find((entry) => entry.id === openId);
+        if (open) openDocument(open);
+      });
+  }, [openDocument]);
 
-  // Handle countdown
+  // A share link pasted into the address bar while the page is open
   useEffect(() => {
-    if (countdown !== null && countdown > 0) {
-      countdownRef.current = setTimeout(() => {
+    const handleHashChange = () => {
+      listDocuments()
+        .catch(() => [] as LibraryDocument[])
+        .then(openShareLink);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Count down one second at a time, then start playback
+  useEffect(() => {
+    if (countdown === null) return;
+    const timeout = setTimeout(() => {
+      if (countdown > 1) {
         setCountdown(countdown - 1);
-      }, 1000);
-    } else if (countdown === 0) {
-      setCountdown(null);
-      setIsPlaying(true);
-    }
+      } else {
+        setCountdown(null);
+        engine.play();
+      }
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [countdown, engine]);
 
-    return () => {
-      if (countdownRef.current) {
-        clearTimeout(countdownRef.current);
+  // Copy a link that opens this text at the current word and speed. Texts too long for a link
+  // fall back to a link to the library copy, which only opens in this browser.
+  const handleShare = async () => {
+    const source = { kind: 'text', text: doc.text, title: title || getDefaultTitle(doc.text) } as const;
+    const position = { word: currentIndex, wpm: speed };
+    let url: string;
+    let message = 'Link copied';
+    try {
+      url = buildShareLink({ source, ...position }, window.location.href);
+    } catch (error) {
+      if (!(error instanceof ShareLinkError) || !docId) {
+        showStatus(error instanceof Error ? error.message : 'Couldn\'t create a link.', 6000);
+        return;
       }
-    };
-  }, [countdown]);
+      url = buildShareLink({ source: { kind: 'document', documentId: docId }, ...position }, window.location.href);
+      message = 'Too long to fit in a link; copied a link that only opens in this browser';
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      showStatus(message, 4000);
+    } catch {
+      showStatus('Couldn\'t copy to the clipboard', 4000);
+    }
+  };
 
   const handleStop = () => {
-    setIsPlaying(false);
+    engine.pause();
     setCountdown(null);
   };
 
   const handleReset = () => {
-    setIsPlaying(false);
-    setCurrentIndex(0);
-    setWords([]);
+    engine.pause();
+    if (docId) updateProgress(docId, 0, speed).catch(() => {});
+    closeReader();
   };
 
-  const currentWord = words[currentIndex] || '';
-  const wordParts = currentWord ? splitWord(currentWord) : { before: '', focal: '', after: '' };
-  
-  // Calculate reading time remaining
-  const calculateRemainingTime = () => {
-    if (words.length === 0 || currentIndex >= words.length - 1) return 0;
-    const remainingWords = words.slice(currentIndex + 1);
-    const totalMs = remainingWords.reduce((acc, word) => acc + getWordDelay(word), 0);
-    return Math.ceil(totalMs / 1000); // Convert to seconds
+  const currentWord = getSourceText(doc, chunkStart, chunkEnd).replace(/\s+/g, ' ');
+
+  // Map a pointer position on the progress bar to a word index
+  const getScrubIndex = (e: React.PointerEvent<HTMLDivElement>): number => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    return Math.min(tokens.length - 1, Math.floor(fraction * tokens.length));
   };
 
-  const remainingSeconds = calculateRemainingTime();
+  // Playback holds while the progress bar is dragged, then carries on from the drop point
+  const handleScrubEnd = () => {
+    if (scrubIndex !== null) {
+      engine.seek(scrubIndex);
+      setScrubIndex(null);
+      engine.setHeld(false);
+    }
+  };
+
+  const cancelScrub = () => {
+    setScrubIndex(null);
+    engine.setHeld(false);
+  };
+
+  // A few words either side of the scrub position, shown above the progress bar
+  const scrubContext = scrubIndex !== null
+    ? {
+        before: getSourceText(doc, scrubIndex - 4, scrubIndex - 1),
+        word: tokens[scrubIndex].text,
+        after: getSourceText(doc, scrubIndex + 1, scrubIndex + 4),
+      }
+    : null;
+  const progressIndex = scrubIndex ?? currentIndex;
+
+  // Arrow keys on the progress bar step a word at a time, Page Up/Down a tenth of the text
+  const handleProgressKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const page = Math.max(1, Math.round(tokens.length / 10));
+    const targets: Record<string, number> = {
+      ArrowLeft: currentIndex - 1,
+      ArrowDown: currentIndex - 1,
+      ArrowRight: currentIndex + 1,
+      ArrowUp: currentIndex + 1,
+      PageDown: currentIndex - page,
+      PageUp: currentIndex + page,
+      Home: 0,
+      End: tokens.length - 1,
+    };
+    if (!(e.key in targets)) return;
+    // Keep the reader's own arrow key shortcuts from running as well
+    e.preventDefault();
+    e.stopPropagation();
+    engine.seek(Math.max(0, Math.min(tokens.length - 1, targets[e.key])));
+  };
+
+  // Screen readers get the state of the reader rather than every word as it flashes past;
+  // while paused that's the sentence at the current word, so skipping reads it out
+  const announcement = countdown !== null
+    ? `Starting in ${countdown}`
+    : !hasStartedReading
+      ? ''
+      : isPlaying
+        ? `Reading at ${speed} words per minute`
+        : `Paused at word ${currentIndex + 1} of ${tokens.length}. ${getSourceText(doc, ...getSentenceRange(doc, chunkStart)).replace(/\s+/g, ' ')}`;
+
+  // Reading time left after the words on screen
+  const remainingSeconds = Math.ceil(getRemainingTime(reader) / 1000);
   const remainingMinutes = Math.floor(remainingSeconds / 60);
   const remainingSecs = remainingSeconds % 60;
 
-  const isReadingMode = isPlaying && words.length > 0;
+  const isReadingMode = isPlaying && tokens.length > 0;
+  const queuedDocuments = getQueuedDocuments(queue, library);
 
   return (
     <div className={`flex min-h-screen items-center justify-center bg-gradient-to-br from-zinc-50 via-blue-50/30 to-zinc-100 dark:from-black dark:via-zinc-950 dark:to-zinc-900 font-sans ${hasStartedReading ? 'overflow-hidden fixed inset-0' : ''}`}>
       <main className={`flex w-full max-w-6xl flex-col items-center justify-center px-6 sm:px-12 transition-all duration-500 ${isReadingMode ? 'min-h-screen py-0' : hasStartedReading ? 'min-h-screen py-0' : 'min-h-screen py-12'}`}>
         {/* Input Section - Fades out when reading */}
-        <div className={`w-full max-w-4xl space-y-10 transition-all duration-500 ${isReadingMode ? 'opacity-0 pointer-events-none absolute -z-10' : hasStartedReading ? 'opacity-0 pointer-events-none absolute -z-10' : 'opacity-100'}`}>
+        <div inert={hasStartedReading} className={`w-full max-w-4xl space-y-10 transition-all duration-500 ${isReadingMode ? 'opacity-0 pointer-events-none absolute -z-10' : hasStartedReading ? 'opacity-0 pointer-events-none absolute -z-10' : 'opacity-100'}`}>
           {/* Header */}
           <div className="text-center space-y-4">
             <div className="inline-flex items-center justify-center">
@@ -273,14 +852,57 @@ export default function Home() {
             <p className="text-lg text-zinc-600 dark:text-zinc-400 max-w-2xl mx-auto">
               Spritz-style reading with optimal recognition points. Read faster by focusing on one word at a time.
             </p>
+            <div className="flex items-center justify-center gap-6">
+              <Link href="/stats" className="inline-block text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                📈 Reading stats
+              </Link>
+              <button
+                onClick={() => setShowSettings(true)}
+                className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+              >
+                ⚙️ Settings
+              </button>
+              <BookmarkletLink />
+            </div>
           </div>
 
           {/* Input Section */}
           <div className="space-y-3">
-            <label htmlFor="text-input" className="block text-sm font-semibold text-zinc-700 dark:text-zinc-300">
-              Enter text to read
-            </label>
-            <div className="relative">
+            <div className="flex items-center justify-between gap-3">
+              <label htmlFor="text-input" className="block text-sm font-semibold text-zinc-700 dark:text-zinc-300">
+                Enter text to read
+                {title && <span className="ml-2 font-normal text-zinc-500 dark:text-zinc-400">📄 {title}</span>}
+              </label>
+              <label className={`px-3 py-1.5 rounded-lg bg-zinc-200 dark:bg-zinc-700 text-xs font-semibold text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors ${isImporting || isPlaying ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                {isImporting ? 'Importing…' : '📂 Open File'}
+                <input
+                  type="file"
+                  accept={ACCEPTED_FILE_TYPES}
+                  className="hidden"
+                  disabled={isImporting || isPlaying}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImport(file);
+                    e.target.value = ''; // Allow picking the same file again
+                  }}
+                />
+              </label>
+            </div>
+            <div
+              className="relative"
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFile(true);
+              }}
+              onDragLeave={() => setIsDraggingFile(false)}
+              onDrop={(e) => {
+                if (e.dataTransfer.files.length === 0) return;
+                e.preventDefault();
+                setIsDraggingFile(false);
+                handleImport(e.dataTransfer.files[0]);
+              }}
+            >
               <textarea
                 id="text-input"
                 value={inputText}
@@ -302,20 +924,62 @@ Every morning, Teddy marched on his tiny paws to inspect his domain. The mailman
 
 At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, dreaming of heroic battles he definitely would have won. In his sleep, his legs twitched as if he were chasing something enormous and terrifying—probably a squirrel. And though the world saw a tiny dog, Teddy knew the truth: bravery isn't about size, it's about attitude, and he had plenty of that.`;
                       setInputText(sampleText);
+                      setTitle('Teddy the Chihuahua');
                       // Start reading with the sample text
-                      const parsedWords = parseText(sampleText);
-                      setWords(parsedWords);
-                      setCurrentIndex(0);
-                      setIsPlaying(false);
-                      setCountdown(3);
+                      startReading(sampleText, 'Teddy the Chihuahua');
                     }}
-                    className="px-6 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 cursor-pointer pointer-events-auto"
+                    className="px-6 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-lg hover:shadow-xl transform motion-safe:hover:scale-105 cursor-pointer pointer-events-auto"
                   >
                     Try Sample Text
                   </button>
                 </div>
               )}
+              {/* Drop target highlight */}
+              {isDraggingFile && (
+                <div className="absolute inset-0 flex items-center justify-center rounded-xl border-2 border-dashed border-blue-500 bg-blue-50/90 dark:bg-blue-900/60 text-sm font-semibold text-blue-700 dark:text-blue-200 pointer-events-none">
+                  Drop a .txt, .md, .html, .epub or .pdf file to import it
+                </div>
+              )}
             </div>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleImportUrl();
+              }}
+            >
+              <input
+                type="text"
+                inputMode="url"
+                value={articleUrl}
+                onChange={(e) => setArticleUrl(e.target.value)}
+                placeholder="…or paste a link to an article"
+                aria-label="Article URL"
+                disabled={isImporting || isPlaying}
+                className="flex-1 min-w-0 px-4 py-2 rounded-lg border-2 border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-zinc-50 placeholder-zinc-400 dark:placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:focus:border-blue-400"
+              />
+              <button
+                type="submit"
+                disabled={isImporting || isPlaying || !articleUrl.trim()}
+                className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-700 text-sm font-semibold text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer"
+              >
+                {isImporting ? 'Importing…' : '🔗 Import'}
+              </button>
+              <button
+                type="button"
+                onClick={handleQueueUrl}
+                disabled={isImporting || isPlaying || !articleUrl.trim()}
+                title="Import the article into the reading queue without opening it"
+                className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-700 text-sm font-semibold text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors cursor-pointer whitespace-nowrap"
+              >
+                ＋ Queue
+              </button>
+            </form>
+            {importError && (
+              <p role="alert" className="text-sm text-red-600 dark:text-red-400">
+                {importError}
+              </p>
+            )}
           </div>
 
           {/* Controls */}
@@ -325,13 +989,25 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                 <button
                   onClick={handleStart}
                   disabled={isPlaying || !inputText.trim()}
-                  className="px-8 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold hover:from-blue-700 hover:to-blue-800 disabled:from-zinc-400 disabled:to-zinc-500 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl disabled:shadow-none transform hover:scale-105 disabled:transform-none cursor-pointer"
+                  className="px-8 py-3 rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold hover:from-blue-700 hover:to-blue-800 disabled:from-zinc-400 disabled:to-zinc-500 disabled:cursor-not-allowed transition-all duration-200 shadow-lg hover:shadow-xl disabled:shadow-none transform motion-safe:hover:scale-105 disabled:transform-none cursor-pointer"
                 >
                   {hasStartedReading ? '▶ Resume' : '▶ Start Reading'}
                 </button>
                 {inputText.trim() && !isPlaying && (
                   <button
-                    onClick={() => setInputText('')}
+                    onClick={handleQueueText}
+                    className="px-4 py-3 rounded-xl bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 font-semibold hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-all duration-200 shadow-md hover:shadow-lg cursor-pointer"
+                    title="Save the text and add it to the end of the reading queue"
+                  >
+                    ＋ Queue
+                  </button>
+                )}
+                {inputText.trim() && !isPlaying && (
+                  <button
+                    onClick={() => {
+                      setInputText('');
+                      setTitle('');
+                    }}
                     className="px-4 py-3 rounded-xl bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 font-semibold hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-all duration-200 shadow-md hover:shadow-lg cursor-pointer"
                     title="Clear text"
                   >
@@ -341,12 +1017,12 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                 {isPlaying && (
                   <button
                     onClick={handleStop}
-                    className="px-6 py-3 rounded-xl bg-gradient-to-r from-red-600 to-red-700 text-white font-semibold hover:from-red-700 hover:to-red-800 transition-all duration-200 shadow-lg hover:shadow-xl transform hover:scale-105 cursor-pointer"
+                    className="px-6 py-3 rounded-xl bg-gradient-to-r from-red-600 to-red-700 text-white font-semibold hover:from-red-700 hover:to-red-800 transition-all duration-200 shadow-lg hover:shadow-xl transform motion-safe:hover:scale-105 cursor-pointer"
                   >
                     ⏸ Stop
                   </button>
                 )}
-                {words.length > 0 && !isPlaying && (
+                {tokens.length > 0 && !isPlaying && (
                   <button
                     onClick={handleReset}
                     className="px-6 py-3 rounded-xl bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 font-semibold hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-all duration-200 shadow-md hover:shadow-lg cursor-pointer"
@@ -364,16 +1040,179 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                 <input
                   id="speed"
                   type="range"
-                  min="100"
-                  max="1000"
-                  step="50"
+                  min={speedMin}
+                  max={speedMax}
+                  step={wpmStep}
                   value={speed}
-                  onChange={(e) => setSpeed(Number(e.target.value))}
+                  onChange={(e) => engine.setSpeed(Number(e.target.value))}
                   className="w-48 h-2 bg-zinc-200 dark:bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-600 hover:accent-blue-700 transition-colors"
                 />
               </div>
             </div>
 
+            {/* Pacing Preset */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <label htmlFor="timing-preset" className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+                Pacing
+              </label>
+              <select
+                id="timing-preset"
+                value={timingPreset}
+                onChange={(e) => setTimingPreset(e.target.value as TimingPresetId)}
+                className="px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-zinc-50 shadow-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(TIMING_PRESETS) as TimingPresetId[]).map((id) => (
+                  <option key={id} value={id}>{TIMING_PRESETS[id].label}</option>
+                ))}
+              </select>
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                {TIMING_PRESETS[timingPreset].description}
+              </span>
+            </div>
+
+            {/* Chunk Size */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <label htmlFor="chunk-preset" className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+                Words on screen
+              </label>
+              <select
+                id="chunk-preset"
+                value={chunkPreset}
+                onChange={(e) => {
+                  const preset = e.target.value as ChunkPresetId;
+                  setChunkPreset(preset);
+                  engine.setChunkLimits(CHUNK_PRESETS[preset].limits);
+                }}
+                className="px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-zinc-50 shadow-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(CHUNK_PRESETS) as ChunkPresetId[]).map((id) => (
+                  <option key={id} value={id}>{CHUNK_PRESETS[id].label}</option>
+                ))}
+              </select>
+              {chunkPreset !== 'single' && (
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Short words are grouped, never across a sentence end
+                </span>
+              )}
+            </div>
+
+            {/* Warm-up and Auto-pace */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <label htmlFor="ramp-words" className="text-sm font-semibold text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+                Warm-up
+              </label>
+              <select
+                id="ramp-words"
+                value={rampWords}
+                onChange={(e) => {
+                  const words = Number(e.target.value);
+                  setRampWords(words);
+                  engine.setRamp(words > 0 ? { words, startFraction: DEFAULT_RAMP_START } : null);
+                }}
+                className="px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-zinc-50 shadow-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value={0}>Off</option>
+                {[20, 50, 100].map((words) => (
+                  <option key={words} value={words}>Over {words} words</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300 whitespace-nowrap cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reader.autoPace}
+                  onChange={(e) => engine.setAutoPace(e.target.checked)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                Auto-pace
+              </label>
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                {rampWords > 0 && `Starts at ${Math.round(DEFAULT_RAMP_START * 100)}% speed after each pause. `}
+                {reader.autoPace && 'Slows down for sentences with long or unusual words.'}
+              </span>
+            </div>
+
+            {/* Narration */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <label className={`flex items-center gap-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300 whitespace-nowrap ${canNarrate ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={narrate && canNarrate}
+                  disabled={!canNarrate}
+                  onChange={(e) => {
+                    setNarrate(e.target.checked);
+                    setNarrationError(null);
+                  }}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                Read aloud
+              </label>
+              {canNarrate && narrate && (
+                <>
+                  <select
+                    aria-label="Voice"
+                    value={voiceUri}
+                    onChange={(e) => setVoiceUri(e.target.value)}
+                    className="px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-zinc-50 shadow-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 max-w-xs"
+                  >
+                    <option value="">Default voice</option>
+                    {voices.map((voice) => (
+                      <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+                    Pitch
+                    <input
+                      type="range"
+                      min="0.5"
+                      max="1.5"
+                      step="0.1"
+                      value={pitch}
+                      onChange={(e) => setPitch(Number(e.target.value))}
+                      className="w-24 accent-blue-600 cursor-pointer"
+                    />
+                  </label>
+                </>
+              )}
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                {narrationError
+                  ?? (canNarrate
+                    ? `The voice sets the pace; its rate follows the speed slider, up to ${MAX_SPEECH_WPM} WPM`
+                    : 'No speech voices are available in this browser, so reading stays silent')}
+              </span>
+            </div>
+
+            {/* Comprehension Quiz */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <label className="flex items-center gap-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300 whitespace-nowrap cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={quizAfterReading}
+                  onChange={(e) => setQuizAfterReading(e.target.checked)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                Quiz me after reading
+              </label>
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                A few questions on the passage, scored against the speed you read it at
+              </span>
+            </div>
+
+            {/* Study Mode */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <label className="flex items-center gap-2 text-sm font-semibold text-zinc-700 dark:text-zinc-300 whitespace-nowrap cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={studyMode}
+                  onChange={(e) => setStudyMode(e.target.checked)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                Study mode
+              </label>
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                Sentences you go back to, stop on or slow down for come back for short re-reads on later days
+              </span>
+            </div>
+
             {/* Progress info when paused */}
             {hasStartedReading && !isPlaying && (
               <div className="p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border-2 border-blue-200 dark:border-blue-800">
@@ -382,17 +1221,17 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                     Reading Progress
                   </span>
                   <span className="text-xs text-blue-700 dark:text-blue-300">
-                    {Math.round(((currentIndex + 1) / words.length) * 100)}% complete
+                    {Math.round(((currentIndex + 1) / tokens.length) * 100)}% complete
                   </span>
                 </div>
                 <div className="w-full h-2 bg-blue-200 dark:bg-blue-800 rounded-full overflow-hidden">
                   <div
                     className="h-full bg-gradient-to-r from-blue-500 to-blue-600 transition-all duration-300"
-                    style={{ width: `${((currentIndex + 1) / words.length) * 100}%` }}
+                    style={{ width: `${((currentIndex + 1) / tokens.length) * 100}%` }}
                   />
                 </div>
                 <div className="mt-2 flex items-center justify-between text-xs text-blue-700 dark:text-blue-300">
-                  <span>Word {currentIndex + 1} of {words.length}</span>
+                  <span>Word {currentIndex + 1} of {tokens.length}</span>
                   {remainingSeconds > 0 && (
                     <span>{remainingMinutes > 0 ? `${remainingMinutes}m ` : ''}{remainingSecs}s remaining</span>
                   )}
@@ -401,8 +1240,21 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
             )}
           </div>
 
+          {/* Library */}
+          {tokens.length === 0 && queuedDocuments.length > 0 && (
+            <QueuePanel documents={queuedDocuments} onPlay={() => showNextInQueue(null)} />
+          )}
+
+          {tokens.length === 0 && passages.length > 0 && (
+            <StudyPanel passages={passages} onReview={startReview} />
+          )}
+
+          {tokens.length === 0 && library.length > 0 && (
+            <LibraryPanel documents={library} queue={queue} onOpen={openDocument} onDelete={handleDeleteDocument} />
+          )}
+
           {/* Instructions */}
-          {words.length === 0 && (
+          {tokens.length === 0 && (
             <div className="mt-8 p-8 rounded-2xl bg-gradient-to-br from-white to-zinc-50 dark:from-zinc-800 dark:to-zinc-900 border-2 border-zinc-200 dark:border-zinc-700 shadow-xl">
               <div className="grid md:grid-cols-2 gap-6">
                 {/* Left side - How it works */}
@@ -427,7 +1279,7 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                       </div>
                       <div>
                         <p className="text-sm font-medium text-zinc-900 dark:text-zinc-50">Enter your text</p>
-                        <p className="text-xs text-zinc-600 dark:text-zinc-400">Paste or type any text you want to read</p>
+                        <p className="text-xs text-zinc-600 dark:text-zinc-400">Paste, type, or drop in a document (.txt, .md, .html, .epub, .pdf)</p>
                       </div>
                     </div>
                     <div className="flex items-start gap-3">
@@ -459,25 +1311,28 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                       Keyboard Shortcuts
                     </p>
                     <div className="space-y-3">
-                      <div className="flex items-center gap-3">
-                        <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300 flex-shrink-0">Play/Pause</span>
-                        <kbd className="px-2.5 py-1.5 text-xs font-semibold text-zinc-800 dark:text-zinc-200 bg-white dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded-md shadow-sm font-mono">
-                          Space
-                        </kbd>
-                      </div>
-                      <div className="flex items-center gap-3">
-                        <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300 flex-shrink-0">Adjust Speed</span>
-                        <div className="flex items-center gap-2">
-                          <kbd className="px-2.5 py-1.5 text-xs font-semibold text-zinc-800 dark:text-zinc-200 bg-white dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded-md shadow-sm font-mono">
-                            ←
-                          </kbd>
-                          <span className="text-xs text-zinc-500 dark:text-zinc-400">or</span>
-                          <kbd className="px-2.5 py-1.5 text-xs font-semibold text-zinc-800 dark:text-zinc-200 bg-white dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded-md shadow-sm font-mono">
-                            →
-                          </kbd>
+                      {(['togglePlay', 'speedDown', 'speedUp', 'previousWord', 'nextWord', 'previousSentence', 'nextSentence', 'previousParagraph', 'nextParagraph', 'bookmark', 'highlight', 'addNote'] as const).map((command) => (
+                        <div key={command} className="flex items-center gap-3">
+                          <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300 flex-shrink-0">{COMMANDS[command].label}</span>
+                          <div className="flex flex-wrap items-center gap-2">
+                            {[...bindings.keys[command].map(formatKeyCombo), ...bindings.buttons[command].map(formatButton)].map((binding, i) => (
+                              <span key={binding} className="flex items-center gap-2">
+                                {i > 0 && <span className="text-xs text-zinc-500 dark:text-zinc-400">or</span>}
+                                <kbd className="px-2.5 py-1.5 text-xs font-semibold text-zinc-800 dark:text-zinc-200 bg-white dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded-md shadow-sm font-mono">
+                                  {binding}
+                                </kbd>
+                              </span>
+                            ))}
+                          </div>
                         </div>
-                      </div>
+                      ))}
                     </div>
+                    <button
+                      onClick={() => setShowShortcuts(true)}
+                      className="mt-3 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline cursor-pointer"
+                    >
+                      Change shortcuts or set up a gamepad{bindings.keys.showHelp.length > 0 && ` (${formatKeyCombo(bindings.keys.showHelp[0])})`}
+                    </button>
                   </div>
                   <div className="p-4 rounded-lg bg-gradient-to-br from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 border border-purple-200 dark:border-purple-800">
                     <p className="text-sm font-bold text-zinc-900 dark:text-zinc-50 mb-3 flex items-center gap-2">
@@ -491,7 +1346,7 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                       </li>
                       <li className="flex items-start gap-2">
                         <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
-                        <span>Automatic punctuation pauses</span>
+                        <span>Adaptive pacing for punctuation, long and rare words</span>
                       </li>
                       <li className="flex items-start gap-2">
                         <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
@@ -505,57 +1360,146 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
           )}
         </div>
 
-        {/* Countdown Overlay */}
+        {/* Quiz Overlay - After the last word */}
+        {quiz && (
+          <Dialog label="Comprehension quiz" onClose={() => setQuiz(null)}>
+            <QuizPanel
+              questions={quiz.questions}
+              wpm={quiz.wpm}
+              onFinish={(correct) => saveQuizResult({
+                id: crypto.randomUUID(),
+                documentId: quiz.documentId,
+                takenAt: Date.now(),
+                wpm: quiz.wpm,
+                correct,
+                total: quiz.questions.length,
+              })}
+              onClose={() => setQuiz(null)}
+            />
+          </Dialog>
+        )}
+
+        {/* Title card between queued documents */}
+        {upNext && quiz === null && (
+          <Dialog label={`Up next: ${upNext.entry.title}`} onClose={() => setUpNext(null)}>
+            <QueueCard
+              entry={upNext.entry}
+              remaining={queue.length}
+              seconds={upNext.seconds}
+              wpm={speed}
+              onStart={() => playQueued(upNext.entry)}
+              onSkip={() => skipQueued(upNext.entry.id)}
+              onStop={() => setUpNext(null)}
+            />
+          </Dialog>
+        )}
+
+        {/* How the re-read passages went */}
+        {review?.finished && quiz === null && (
+          <Dialog label="Study review" onClose={closeReader}>
+            <StudyReview passages={review.passages} onClose={closeReader} />
+          </Dialog>
+        )}
+
+        {/* Shortcuts Overlay */}
+        {showShortcuts && (
+          <Dialog label="Keyboard and gamepad shortcuts" onClose={() => setShowShortcuts(false)}>
+            <ShortcutsPanel bindings={bindings} onClose={() => setShowShortcuts(false)} />
+          </Dialog>
+        )}
+
+        {/* Settings Overlay */}
+        {showSettings && (
+          <Dialog label="Settings" onClose={() => setShowSettings(false)}>
+            <SettingsPanel
+              settings={settings}
+              presetProfile={TIMING_PRESETS[timingPreset].profile}
+              onClose={() => setShowSettings(false)}
+            />
+          </Dialog>
+        )}
+
+        {/* Export Overlay */}
+        {showExport && (
+          <Dialog label="Export passage" onClose={() => setShowExport(false)}>
+            <ExportPanel
+              doc={doc}
+              title={title || getDefaultTitle(doc.text)}
+              index={currentIndex}
+              wpm={speed}
+              timingProfile={timingProfile}
+              chunkLimits={CHUNK_PRESETS[chunkPreset].limits}
+              theme={settings.theme === 'standard' ? 'light' : settings.theme}
+              onClose={() => setShowExport(false)}
+            />
+          </Dialog>
+        )}
+
+        {/* Countdown Overlay - the number holds still when the system asks for reduced motion */}
         {countdown !== null && (
-          <div 
-            className="fixed inset-0 flex items-center justify-center z-50 bg-black/50 dark:bg-black/70 backdrop-blur-sm cursor-pointer"
+          <button
+            ref={countdownRef}
+            aria-label="Start reading now"
+            className="fixed inset-0 flex items-center justify-center z-50 bg-black/50 dark:bg-black/70 backdrop-blur-sm cursor-pointer focus:outline-none"
             onClick={() => {
               setCountdown(null);
-              setIsPlaying(true);
+              engine.play();
             }}
           >
-            <div className="flex flex-col items-center justify-center px-4">
-              <div className="text-6xl sm:text-8xl md:text-9xl font-bold text-white animate-pulse">
+            <span className="flex flex-col items-center justify-center px-4">
+              <span className="text-6xl sm:text-8xl md:text-9xl font-bold text-white motion-safe:animate-pulse">
                 {countdown}
-              </div>
-              <p className="text-lg sm:text-xl text-white/80 mt-3 sm:mt-4">Get ready...</p>
-              <p className="text-xs sm:text-sm text-white/60 mt-2">Tap or click to start now</p>
-            </div>
-          </div>
+              </span>
+              <span className="text-lg sm:text-xl text-white/80 mt-3 sm:mt-4">Get ready...</span>
+              <span className="text-xs sm:text-sm text-white/60 mt-2">Tap, click or press Enter to start now</span>
+            </span>
+          </button>
         )}
 
         {/* Reading Display - Shows when reading or paused */}
         {hasStartedReading && (
-          <div 
-            className={`transition-all duration-500 fixed inset-0 flex items-center justify-center ${isReadingMode ? 'opacity-100' : 'opacity-100'} cursor-pointer`}
-            onClick={(e) => {
-              // Don't toggle if clicking on buttons or interactive elements
-              const target = e.target as HTMLElement;
-              if (target.tagName === 'BUTTON' || target.closest('button') || target.tagName === 'INPUT' || target.closest('input') || target.closest('label')) {
-                return;
-              }
-              togglePlay();
-            }}
+          <section
+            aria-label="Reader"
+            className={`transition-all duration-500 fixed inset-0 flex items-center justify-center ${theme.background}`}
           >
             <div className="flex flex-col items-center justify-center w-full h-full relative">
+              {/* Clicking anywhere outside the controls plays or pauses */}
+              <button
+                ref={toggleRef}
+                aria-label={isPlaying ? 'Pause reading' : 'Resume reading'}
+                className="absolute inset-0 cursor-pointer focus:outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-blue-500/40"
+                onClick={() => engine.toggle()}
+              />
+
+              {/* What a screen reader says instead of reading out every word on screen */}
+              <p role="status" className="sr-only">{announcement}</p>
+
               {/* Controls when reading or paused */}
               <div className="absolute top-3 sm:top-6 left-0 right-0 flex flex-col items-center gap-3 sm:gap-4 z-10 px-2">
-                <div className="flex flex-wrap items-center justify-center gap-2 sm:gap-3 px-3 sm:px-4 py-2 rounded-lg bg-black/10 dark:bg-white/10 backdrop-blur-sm max-w-full">
+                <div role="group" aria-label="Reading controls" className="flex flex-wrap items-center justify-center gap-2 sm:gap-3 px-3 sm:px-4 py-2 rounded-lg bg-black/10 dark:bg-white/10 backdrop-blur-sm max-w-full">
                   {!isPlaying && (
                     <span className="text-xs px-2 py-1 rounded bg-yellow-500/20 text-yellow-700 dark:text-yellow-400 font-medium">
                       Paused
                     </span>
                   )}
+                  {(review || (studyMode && docId)) && (
+                    <span
+                      title={review ? 'Re-reading passages marked as hard' : 'Marking sentences that give you trouble'}
+                      className="text-xs px-2 py-1 rounded bg-purple-500/20 text-purple-700 dark:text-purple-300 font-medium"
+                    >
+                      🎓 {review ? 'Review' : 'Study'}
+                    </span>
+                  )}
                   <span className="text-xs sm:text-sm text-zinc-700 dark:text-zinc-300 font-medium font-mono">
-                    {speed} WPM
+                    {isPlaying && currentWpm !== speed ? `${currentWpm}/${speed}` : speed} WPM
                   </span>
                   <span className="hidden sm:inline text-zinc-400 dark:text-zinc-500">•</span>
                   <span className="text-xs sm:text-sm text-zinc-600 dark:text-zinc-400 font-mono">
-                    <span className="hidden sm:inline">Word </span>{currentIndex + 1}<span className="hidden sm:inline"> of {words.length}</span>
+                    <span className="hidden sm:inline">Word </span>{currentIndex + 1}<span className="hidden sm:inline"> of {tokens.length}</span>
                   </span>
                   <span className="hidden sm:inline text-zinc-400 dark:text-zinc-500">•</span>
                   <span className="text-xs sm:text-sm text-zinc-600 dark:text-zinc-400 font-mono">
-                    {Math.round(((currentIndex + 1) / words.length) * 100)}%
+                    {Math.round(((currentIndex + 1) / tokens.length) * 100)}%
                   </span>
                   {remainingSeconds > 0 && (
                     <>
@@ -575,10 +1519,56 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                   )}
                   {!isPlaying && (
                     <button
-                      onClick={() => {
-                        setWords([]);
-                        setCurrentIndex(0);
-                      }}
+                      onClick={handleShare}
+                      title="Copy a link to this text at the current word and speed"
+                      className="ml-1 sm:ml-2 px-2 sm:px-3 py-1 text-xs rounded bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors cursor-pointer"
+                    >
+                      🔗 Share
+                    </button>
+                  )}
+                  {!isPlaying && (
+                    <button
+                      onClick={() => setShowMarks(!showMarks)}
+                      title="Bookmarks and highlights"
+                      aria-label={`Bookmarks and highlights (${marks.length})`}
+                      aria-pressed={showMarks}
+                      className={`ml-1 sm:ml-2 px-2 sm:px-3 py-1 text-xs rounded text-white font-medium transition-colors cursor-pointer ${showMarks ? 'bg-blue-600 hover:bg-blue-700' : 'bg-zinc-600 hover:bg-zinc-700'}`}
+                    >
+                      🔖 {marks.length}
+                    </button>
+                  )}
+                  {!isPlaying && (
+                    <button
+                      onClick={() => setShowSettings(true)}
+                      title="Settings"
+                      aria-label="Settings"
+                      className="ml-1 sm:ml-2 px-2 sm:px-3 py-1 text-xs rounded bg-zinc-600 text-white font-medium hover:bg-zinc-700 transition-colors cursor-pointer"
+                    >
+                      ⚙️
+                    </button>
+                  )}
+                  {!isPlaying && (
+                    <button
+                      onClick={() => setShowExport(true)}
+                      title="Save this passage as a video or animated GIF"
+                      aria-label="Export as video or GIF"
+                      className="ml-1 sm:ml-2 px-2 sm:px-3 py-1 text-xs rounded bg-zinc-600 text-white font-medium hover:bg-zinc-700 transition-colors cursor-pointer"
+                    >
+                      🎬
+                    </button>
+                  )}
+                  {!isPlaying && docId && isQueued && (
+                    <button
+                      onClick={() => skipQueued(docId)}
+                      title="Skip the rest of this and go to the next document in the queue"
+                      className="ml-1 sm:ml-2 px-2 sm:px-3 py-1 text-xs rounded bg-zinc-600 text-white font-medium hover:bg-zinc-700 transition-colors cursor-pointer"
+                    >
+                      ⏭ Next in queue
+                    </button>
+                  )}
+                  {!isPlaying && (
+                    <button
+                      onClick={closeReader}
                       className="ml-1 sm:ml-2 px-2 sm:px-3 py-1 text-xs rounded bg-zinc-600 text-white font-medium hover:bg-zinc-700 transition-colors cursor-pointer"
                     >
                       <span className="hidden sm:inline">Back to Input</span>
@@ -586,12 +1576,17 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                     </button>
                   )}
                 </div>
+                {status && (
+                  <p role="status" className="text-xs px-3 py-1 rounded bg-black/70 text-white">
+                    {status}
+                  </p>
+                )}
                 
                 {/* Speed Control - Show when paused */}
                 {!isPlaying && (
                   <div className="flex flex-col sm:flex-row items-center justify-center gap-3 sm:gap-4 w-full px-2">
                     <button
-                      onClick={handleStart}
+                      onClick={handleResume}
                       className="px-4 py-2.5 rounded-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white font-semibold hover:from-blue-700 hover:to-blue-800 transition-all duration-200 shadow-md hover:shadow-lg cursor-pointer w-full sm:w-auto whitespace-nowrap"
                     >
                       ▶ Play
@@ -603,109 +1598,150 @@ At night, Teddy curled up, heart pounding fast like all chihuahuas' hearts do, d
                       <input
                         id="speed-paused"
                         type="range"
-                        min="100"
-                        max="1000"
-                        step="50"
+                        min={speedMin}
+                        max={speedMax}
+                        step={wpmStep}
                         value={speed}
-                        onChange={(e) => setSpeed(Number(e.target.value))}
+                        onChange={(e) => engine.setSpeed(Number(e.target.value))}
                         className="w-full sm:w-64 h-2 bg-zinc-200 dark:bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-600 hover:accent-blue-700 transition-colors"
                       />
                     </div>
                   </div>
                 )}
+
+                {/* Skip Controls - Show when paused */}
+                {!isPlaying && (
+                  <div role="group" aria-label="Skip" className="flex items-center justify-center gap-2">
+                    {([
+                      ['paragraph', -1, '⏮', 'Previous paragraph'],
+                      ['sentence', -1, '«', 'Previous sentence'],
+                      ['word', -1, '‹', 'Previous word'],
+                      ['word', 1, '›', 'Next word'],
+                      ['sentence', 1, '»', 'Next sentence'],
+                      ['paragraph', 1, '⏭', 'Next paragraph'],
+                    ] as const).map(([unit, direction, icon, label]) => (
+                      <button
+                        key={label}
+                        onClick={() => engine.skip(unit, direction)}
+                        title={label}
+                        aria-label={label}
+                        className="w-9 h-9 rounded-lg bg-white/90 dark:bg-zinc-800/90 text-zinc-700 dark:text-zinc-300 font-semibold shadow-md border border-zinc-200 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-colors cursor-pointer"
+                      >
+                        {icon}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
 
-              {/* Word Display - Anchored focal letter at exact center */}
-              <div className="relative w-full flex items-center justify-center flex-1 px-2 sm:px-4">
-                <div className="relative w-full max-w-4xl h-24 sm:h-32 flex items-center justify-center">
-                  {/* Vertical guide line */}
-                  <div className="absolute left-1/2 top-0 bottom-0 w-0.5 bg-red-500/20 dark:bg-red-400/20 pointer-events-none" />
-                  
-                  {/* Top horizontal line */}
-                  <div className="absolute left-0 right-0 top-1/2 -translate-y-[calc(50%+5rem)] sm:-translate-y-[calc(50%+7rem)] h-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none" />
-                  
-                  {/* Bottom horizontal line */}
-                  <div className="absolute left-0 right-0 top-1/2 -translate-y-[calc(-50%-5rem)] sm:-translate-y-[calc(-50%-7rem)] h-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none" />
-                  
-                  {/* Vertical line from top horizontal line down toward focal point - mobile */}
-                  <div 
-                    className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none sm:hidden"
-                    style={{ 
-                      top: 'calc(50% - 5rem)',
-                      height: '1rem',
-                      transform: 'translateX(-50%)'
-                    }}
-                  />
-                  {/* Vertical line from top horizontal line down toward focal point - desktop */}
-                  <div 
-                    className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none hidden sm:block"
-                    style={{ 
-                      top: 'calc(50% - 7rem)', 
-                      height: '1.5rem',
-                      transform: 'translateX(-50%)'
-                    }}
-                  />
-                  
-                  {/* Vertical line from bottom horizontal line up toward focal point - mobile */}
-                  <div 
-                    className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none sm:hidden"
-                    style={{ 
-                      bottom: 'calc(50% - 5rem)', 
-                      height: '1rem',
-                      transform: 'translateX(-50%)'
+              {/* Word Display - Anchored focal letter at exact center; clicks go through to the play/pause button */}
+              <div className="contents pointer-events-none">
+                <AnchoredWord text={currentWord} compact={chunkPreset !== 'single'} settings={settings} />
+              </div>
+
+              {/* Context Panel - Shows the surrounding passage when paused */}
+              {!isPlaying && countdown === null && scrubIndex === null && !noteDraft && (
+                <div className="absolute bottom-20 sm:bottom-28 left-0 right-0 flex justify-center px-2">
+                  {showMarks ? (
+                    <MarksPanel
+                      doc={doc}
+                      title={title || getDefaultTitle(doc.text)}
+                      marks={marks}
+                      onSelect={(mark) => {
+                        engine.seek(mark.start);
+                        setShowMarks(false);
+                      }}
+                    />
+                  ) : (
+                    <ContextPanel
+                      doc={doc}
+                      highlightStart={chunkStart}
+                      highlightEnd={chunkEnd}
+                      onSelect={(index) => {
+                        engine.seek(index);
+                        engine.play();
+                      }}
+                    />
+                  )}
+                </div>
+              )}
+
+              {/* Note for a bookmark - typed while playback carries on */}
+              {noteDraft && (
+                <form
+                  className="absolute bottom-20 sm:bottom-28 left-0 right-0 flex justify-center px-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    updateMarkNote(noteDraft.markId, noteDraft.text);
+                    setNoteDraft(null);
+                  }}
+                >
+                  <input
+                    ref={noteInputRef}
+                    aria-label="Note for this bookmark"
+                    value={noteDraft.text}
+                    maxLength={280}
+                    placeholder="Add a note — Enter to save, Esc to skip"
+                    onChange={(e) => setNoteDraft({ ...noteDraft, text: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') setNoteDraft(null);
                     }}
-                  />
-                  {/* Vertical line from bottom horizontal line up toward focal point - desktop */}
-                  <div 
-                    className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none hidden sm:block"
-                    style={{ 
-                      bottom: 'calc(50% - 7rem)', 
-                      height: '1.5rem',
-                      transform: 'translateX(-50%)'
+                    onBlur={() => {
+                      updateMarkNote(noteDraft.markId, noteDraft.text);
+                      setNoteDraft(null);
                     }}
+                    className="w-full max-w-md px-4 py-2 rounded-xl bg-white/95 dark:bg-zinc-800/95 shadow-lg border border-zinc-200 dark:border-zinc-700 text-sm text-zinc-900 dark:text-zinc-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
                   />
-                  
-                  {/* Fixed center anchor - left edge at 50% */}
-                  <div className="absolute left-1/2 top-1/2 -translate-y-1/2 flex items-center">
-                    {/* Focal letter container - centers the letter on the anchor point */}
-                    <div className="relative -translate-x-1/2 transition-opacity duration-150">
-                      <span className="text-5xl sm:text-6xl md:text-7xl lg:text-8xl font-bold text-red-600 dark:text-red-500 leading-none font-mono inline-block drop-shadow-sm">
-                        {wordParts.focal}
-                      </span>
-                      {/* Before text - ends right before focal letter (dimmed) */}
-                      <span 
-                        className="absolute right-full text-5xl sm:text-6xl md:text-7xl lg:text-8xl font-bold text-zinc-900 dark:text-zinc-50 leading-none font-mono whitespace-nowrap pr-0.5 sm:pr-1 opacity-70 transition-opacity duration-150"
-                      >
-                        {wordParts.before}
-                      </span>
-                      {/* After text - starts right after focal letter (dimmed) */}
-                      <span 
-                        className="absolute left-full text-5xl sm:text-6xl md:text-7xl lg:text-8xl font-bold text-zinc-900 dark:text-zinc-50 leading-none font-mono whitespace-nowrap pl-0.5 sm:pl-1 opacity-70 transition-opacity duration-150"
-                      >
-                        {wordParts.after}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              </div>
+                </form>
+              )}
 
-              {/* Progress Indicator - Always visible when reading or paused */}
+              {/* Progress Indicator - Always visible when reading or paused, drag to scrub */}
               <div className="absolute bottom-4 sm:bottom-8 left-0 right-0 flex justify-center px-2">
-                <div className="w-full max-w-md">
+                <div className="w-full max-w-md relative">
+                  {/* Scrub preview - a few words of context around the target position */}
+                  {scrubContext && (
+                    <div dir="auto" className="absolute bottom-full left-0 right-0 mb-2 px-3 py-2 rounded-lg bg-white/95 dark:bg-zinc-800/95 shadow-lg border border-zinc-200 dark:border-zinc-700 text-sm text-center text-zinc-500 dark:text-zinc-400 truncate pointer-events-none">
+                      {scrubContext.before}{' '}
+                      <span className="font-bold text-red-600 dark:text-red-500">{scrubContext.word}</span>
+                      {' '}{scrubContext.after}
+                    </div>
+                  )}
                   <div className="mb-1 sm:mb-2 flex justify-between text-xs text-zinc-500 dark:text-zinc-400">
-                    <span>Progress</span>
-                    <span>{Math.round(((currentIndex + 1) / words.length) * 100)}%</span>
+                    <span>{scrubIndex !== null ? `Word ${scrubIndex + 1} of ${tokens.length}` : 'Progress'}</span>
+                    <span>{Math.round(((progressIndex + 1) / tokens.length) * 100)}%</span>
                   </div>
-                  <div className="w-full h-1.5 sm:h-2 bg-zinc-200/70 dark:bg-zinc-700/70 rounded-full overflow-hidden shadow-inner">
-                    <div
-                      className="h-full bg-gradient-to-r from-blue-600 to-blue-500 transition-all duration-300 ease-out"
-                      style={{ width: `${((currentIndex + 1) / words.length) * 100}%` }}
-                    />
+                  <div
+                    role="slider"
+                    aria-label="Reading position"
+                    aria-valuemin={1}
+                    aria-valuemax={tokens.length}
+                    aria-valuenow={progressIndex + 1}
+                    aria-valuetext={`Word ${progressIndex + 1} of ${tokens.length}`}
+                    tabIndex={0}
+                    className="py-2 -my-2 rounded cursor-pointer touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500"
+                    onKeyDown={handleProgressKeyDown}
+                    onPointerDown={(e) => {
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      setScrubIndex(getScrubIndex(e));
+                      engine.setHeld(true);
+                    }}
+                    onPointerMove={(e) => {
+                      if (scrubIndex !== null) setScrubIndex(getScrubIndex(e));
+                    }}
+                    onPointerUp={handleScrubEnd}
+                    onPointerCancel={cancelScrub}
+                  >
+                    <div className="w-full h-1.5 sm:h-2 bg-zinc-200/70 dark:bg-zinc-700/70 rounded-full overflow-hidden shadow-inner">
+                      <div
+                        className={`h-full bg-gradient-to-r from-blue-600 to-blue-500 ${scrubIndex !== null ? '' : 'transition-all duration-300 ease-out'}`}
+                        style={{ width: `${((progressIndex + 1) / tokens.length) * 100}%` }}
+                      />
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
-          </div>
+          </section>
         )}
       </main>
     </div>
@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import StatsDashboard from "@/components/StatsDashboard";
+
+export const metadata: Metadata = {
+  title: "Reading Stats | Zoomer Digest",
+  description: "Your reading speed, daily words and streaks.",
+};
+
+export default function StatsPage() {
+  return <StatsDashboard />;
+}
@@ -0,0 +1,107 @@
+import { getDisplayParts } from '@/lib/reader/focal';
+import { isRtl } from '@/lib/script';
+import { DEFAULT_SETTINGS, FONT_FAMILIES, FONT_SIZES, THEMES, type ReaderSettings, type ThemeId } from '@/lib/settings';
+
+interface AnchoredWordProps {
+  text: string; // word or chunk on screen
+  compact?: boolean; // smaller type for multi-word chunks
+  settings?: ReaderSettings; // theme, font, size, focal colour and guide lines
+  theme?: Pick<(typeof THEMES)[ThemeId], 'text' | 'focal' | 'font'>; // classes in place of the settings' theme, e.g. for the embedded reader
+}
+
+// The word on screen with its focal letter pinned to the centre, between guide lines. Hidden
+// from screen readers, which would otherwise try to read out every change.
+export default function AnchoredWord({ text, compact = false, settings = DEFAULT_SETTINGS, theme = THEMES[settings.theme] }: AnchoredWordProps) {
+  const wordParts = getDisplayParts(text);
+  // Right-to-left words read from the focal letter leftwards, so the before/after sides swap
+  const isRtlWord = isRtl(text);
+  // Multi-word chunks need a smaller type size to fit on screen
+  const textSize = compact ? FONT_SIZES[settings.fontSize].compact : FONT_SIZES[settings.fontSize].single;
+  const font = theme.font ?? FONT_FAMILIES[settings.fontFamily].className;
+  // A custom focal colour replaces the theme's in both light and dark mode
+  const focalClass = settings.focalColor ? '' : theme.focal;
+
+  return (
+    <div aria-hidden="true" className="relative w-full flex items-center justify-center flex-1 px-2 sm:px-4">
+      <div className="relative w-full max-w-4xl h-24 sm:h-32 flex items-center justify-center">
+        {settings.showGuides && (
+          <>
+            {/* Vertical guide line */}
+            <div className="absolute left-1/2 top-0 bottom-0 w-0.5 bg-red-500/20 dark:bg-red-400/20 pointer-events-none" />
+
+            {/* Top horizontal line */}
+            <div className="absolute left-0 right-0 top-1/2 -translate-y-[calc(50%+5rem)] sm:-translate-y-[calc(50%+7rem)] h-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none" />
+
+            {/* Bottom horizontal line */}
+            <div className="absolute left-0 right-0 top-1/2 -translate-y-[calc(-50%-5rem)] sm:-translate-y-[calc(-50%-7rem)] h-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none" />
+
+            {/* Vertical line from top horizontal line down toward focal point - mobile */}
+            <div 
+              className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none sm:hidden"
+              style={{ 
+                top: 'calc(50% - 5rem)',
+                height: '1rem',
+                transform: 'translateX(-50%)'
+              }}
+            />
+            {/* Vertical line from top horizontal line down toward focal point - desktop */}
+            <div 
+              className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none hidden sm:block"
+              style={{ 
+                top: 'calc(50% - 7rem)', 
+                height: '1.5rem',
+                transform: 'translateX(-50%)'
+              }}
+            />
+
+            {/* Vertical line from bottom horizontal line up toward focal point - mobile */}
+            <div 
+              className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none sm:hidden"
+              style={{ 
+                bottom: 'calc(50% - 5rem)', 
+                height: '1rem',
+                transform: 'translateX(-50%)'
+              }}
+            />
+            {/* Vertical line from bottom horizontal line up toward focal point - desktop */}
+            <div 
+              className="absolute left-1/2 w-px bg-zinc-300/30 dark:bg-zinc-600/30 pointer-events-none hidden sm:block"
+              style={{ 
+                bottom: 'calc(50% - 7rem)', 
+                height: '1.5rem',
+                transform: 'translateX(-50%)'
+              }}
+            />
+          </>
+        )}
+
+        {/* Fixed center anchor - left edge at 50% */}
+        <div className="absolute left-1/2 top-1/2 -translate-y-1/2 flex items-center">
+          {/* Focal letter container - centers the letter on the anchor point */}
+          <div className="relative -translate-x-1/2 transition-opacity duration-150">
+            <span
+              className={`${textSize} font-bold ${focalClass} leading-none ${font} inline-block drop-shadow-sm`}
+              style={settings.focalColor ? { color: settings.focalColor } : undefined}
+            >
+              {wordParts.focal}
+            </span>
+            {/* Before text - ends right before focal letter (dimmed) */}
+            <span 
+              dir={isRtlWord ? 'rtl' : undefined}
+              className={`absolute ${isRtlWord ? 'left-full pl-0.5 sm:pl-1' : 'right-full pr-0.5 sm:pr-1'} ${textSize} font-bold ${theme.text} leading-none ${font} whitespace-pre transition-opacity duration-150`}
+            >
+              {wordParts.before}
+            </span>
+            {/* After text - starts right after focal letter (dimmed) */}
+            <span 
+              dir={isRtlWord ? 'rtl' : undefined}
+              className={`absolute ${isRtlWord ? 'right-full pr-0.5 sm:pr-1' : 'left-full pl-0.5 sm:pl-1'} ${textSize} font-bold ${theme.text} leading-none ${font} whitespace-pre transition-opacity duration-150`}
+            >
+              {wordParts.after}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
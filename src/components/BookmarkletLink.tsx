@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import { getBookmarklet } from '@/lib/bookmarklet';
+
+// Link to drag to the bookmarks bar; clicking it on another page speed-reads that page
+export default function BookmarkletLink() {
+  const [showHint, setShowHint] = useState(false);
+  const linkRef = useRef<HTMLAnchorElement>(null);
+
+  // React won't render a javascript: URL, so the bookmarklet is set on the element directly
+  useEffect(() => {
+    linkRef.current?.setAttribute('href', getBookmarklet(window.location.origin));
+  }, []);
+
+  return (
+    <span className="relative inline-block">
+      <a
+        ref={linkRef}
+        href="#bookmarklet"
+        onClick={(e) => {
+          // Running it here would only open the reader over itself
+          e.preventDefault();
+          setShowHint(!showHint);
+        }}
+        title="Drag to your bookmarks bar, then click it on any page to speed-read the selection or the article"
+        className="inline-block text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline cursor-grab"
+      >
+        📌 Read in any tab
+      </a>
+      {showHint && (
+        <span role="status" className="absolute left-1/2 top-full mt-2 -translate-x-1/2 w-64 z-10 px-3 py-2 rounded-lg bg-zinc-900 text-white text-xs shadow-lg">
+          Drag this link to your bookmarks bar. On any page, select some text (or nothing, for the whole article) and click the bookmark to speed-read it over the page.
+        </span>
+      )}
+    </span>
+  );
+}
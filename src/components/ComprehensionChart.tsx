@@ -0,0 +1,53 @@
+import { getComprehensionBySpeed, type QuizResult } from '@/lib/quiz';
+
+interface ComprehensionChartProps {
+  results: QuizResult[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 32;
+
+// Quiz scores against reading speed: one faint dot per quiz, and a line through the average
+// score at each speed, which shows where comprehension starts to drop off
+export default function ComprehensionChart({ results }: ComprehensionChartProps) {
+  if (results.length === 0) {
+    return <p className="text-sm text-zinc-500 dark:text-zinc-400">Turn on &ldquo;Quiz me after reading&rdquo; to see how well you understand at each speed.</p>;
+  }
+
+  const bySpeed = getComprehensionBySpeed(results);
+  const minWpm = Math.floor(Math.min(...results.map((result) => result.wpm)) / 100) * 100;
+  const maxWpm = Math.max(minWpm + 100, Math.ceil(Math.max(...results.map((result) => result.wpm)) / 100) * 100);
+  const x = (wpm: number) => PADDING + ((wpm - minWpm) / (maxWpm - minWpm)) * (WIDTH - PADDING * 2);
+  const y = (score: number) => HEIGHT - PADDING - score * (HEIGHT - PADDING * 2);
+  const points = bySpeed.map((bucket) => `${x(bucket.wpm)},${y(bucket.score)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Quiz score by reading speed">
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={y(fraction)} y2={y(fraction)} className="stroke-zinc-200 dark:stroke-zinc-700" />
+          <text x={PADDING - 6} y={y(fraction) + 4} textAnchor="end" className="fill-zinc-500 text-[10px]">
+            {fraction * 100}%
+          </text>
+        </g>
+      ))}
+      {[minWpm, maxWpm].map((wpm) => (
+        <text key={wpm} x={x(wpm)} y={HEIGHT - PADDING + 16} textAnchor="middle" className="fill-zinc-500 text-[10px]">
+          {wpm} WPM
+        </text>
+      ))}
+      {results.map((result) => (
+        <circle key={result.id} cx={x(result.wpm)} cy={y(result.correct / result.total)} r={2.5} className="fill-purple-400/50" />
+      ))}
+      {bySpeed.length > 1 && (
+        <polyline points={points} fill="none" strokeWidth={2.5} strokeLinejoin="round" className="stroke-blue-600 dark:stroke-blue-400" />
+      )}
+      {bySpeed.map((bucket) => (
+        <circle key={bucket.wpm} cx={x(bucket.wpm)} cy={y(bucket.score)} r={3.5} className="fill-blue-600 dark:fill-blue-400">
+          <title>{`${bucket.wpm} WPM: ${Math.round(bucket.score * 100)}% correct over ${bucket.quizzes} ${bucket.quizzes === 1 ? 'quiz' : 'quizzes'}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
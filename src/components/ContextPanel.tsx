@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ReaderDocument } from '@/lib/document';
+
+interface ContextPanelProps {
+  doc: ReaderDocument;
+  highlightStart: number; // first token on screen when paused
+  highlightEnd: number; // last token on screen when paused
+  onSelect: (index: number) => void;
+}
+
+type ContextScope = 'sentence' | 'paragraph';
+
+// Token range [first, last] of the sentence or paragraph containing `index`
+function getScopeRange(doc: ReaderDocument, index: number, scope: ContextScope): [number, number] {
+  const token = doc.tokens[index];
+  let first = index;
+  let last = index;
+  while (first > 0 && doc.tokens[first - 1][scope] === token[scope]) first--;
+  while (last < doc.tokens.length - 1 && doc.tokens[last + 1][scope] === token[scope]) last++;
+  return [first, last];
+}
+
+// The passage around the paused position, with the current word highlighted; clicking a word resumes from it
+export default function ContextPanel({ doc, highlightStart, highlightEnd, onSelect }: ContextPanelProps) {
+  const [scope, setScope] = useState<ContextScope>('paragraph');
+  const highlightRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current word visible in long paragraphs
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [highlightStart, scope]);
+
+  if (!doc.tokens[highlightStart]) return null;
+  const [first, last] = getScopeRange(doc, highlightStart, scope);
+
+  return (
+    <div className="w-full max-w-2xl rounded-xl bg-white/90 dark:bg-zinc-800/90 backdrop-blur-sm shadow-lg border border-zinc-200 dark:border-zinc-700 cursor-default">
+      <div className="flex items-center justify-between px-4 pt-3 text-xs text-zinc-500 dark:text-zinc-400">
+        <span>Click a word to resume from there</span>
+        <div className="flex gap-1">
+          {(['sentence', 'paragraph'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setScope(option)}
+              className={`px-2 py-0.5 rounded capitalize cursor-pointer transition-colors ${scope === option ? 'bg-blue-600 text-white' : 'hover:bg-zinc-200 dark:hover:bg-zinc-700'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p dir="auto" className="px-4 py-3 max-h-40 sm:max-h-48 overflow-y-auto text-sm sm:text-base leading-relaxed text-zinc-700 dark:text-zinc-300">
+        {doc.tokens.slice(first, last + 1).map((token) => {
+          const isCurrent = token.index >= highlightStart && token.index <= highlightEnd;
+          // Keep the original spacing and line breaks between words
+          const gap = token.index > first ? doc.text.slice(doc.tokens[token.index - 1].end, token.start) : '';
+          return (
+            <span key={token.index}>
+              {gap && <span className="whitespace-pre-wrap">{gap}</span>}
+              <button
+                ref={token.index === highlightStart ? highlightRef : undefined}
+                onClick={() => onSelect(token.index)}
+                className={`rounded px-0.5 -mx-0.5 cursor-pointer transition-colors ${isCurrent ? 'bg-red-500/20 text-red-700 dark:text-red-400 font-semibold' : 'hover:bg-blue-500/15'}`}
+              >
+                {token.text}
+              </button>
+            </span>
+          );
+        })}
+      </p>
+    </div>
+  );
+}
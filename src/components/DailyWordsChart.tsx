@@ -0,0 +1,38 @@
+interface DailyWordsChartProps {
+  days: { date: string; words: number }[]; // oldest first
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 24;
+
+// Words read per day as bars, labelled with the first and last dates
+export default function DailyWordsChart({ days }: DailyWordsChartProps) {
+  const maxWords = Math.max(1, ...days.map((day) => day.words));
+  const slot = (WIDTH - PADDING * 2) / days.length;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Words read per day">
+      <line x1={PADDING} x2={WIDTH - PADDING} y1={HEIGHT - PADDING} y2={HEIGHT - PADDING} className="stroke-zinc-200 dark:stroke-zinc-700" />
+      {days.map((day, i) => {
+        const height = (day.words / maxWords) * (HEIGHT - PADDING * 2);
+        return (
+          <rect
+            key={day.date}
+            x={PADDING + i * slot + slot * 0.15}
+            y={HEIGHT - PADDING - height}
+            width={slot * 0.7}
+            height={height}
+            rx={2}
+            className="fill-blue-500 dark:fill-blue-400"
+          >
+            <title>{`${day.date}: ${day.words.toLocaleString()} words`}</title>
+          </rect>
+        );
+      })}
+      <text x={PADDING} y={HEIGHT - 6} className="fill-zinc-500 text-[10px]">{days[0]?.date}</text>
+      <text x={WIDTH - PADDING} y={HEIGHT - 6} textAnchor="end" className="fill-zinc-500 text-[10px]">{days[days.length - 1]?.date}</text>
+      <text x={PADDING} y={PADDING - 8} className="fill-zinc-500 text-[10px]">{maxWords.toLocaleString()} words</text>
+    </svg>
+  );
+}
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import axe from 'axe-core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import Dialog from '@/components/Dialog';
+
+afterEach(cleanup);
+
+// A button that had focus before the dialog opened, then the dialog over it
+function renderDialog(onClose = () => {}) {
+  const opener = document.createElement('button');
+  opener.textContent = 'Open';
+  document.body.append(opener);
+  opener.focus();
+  const view = render(
+    <Dialog label="Settings" onClose={onClose}>
+      <div>
+        <button>First</button>
+        <input aria-label="Middle" />
+        <button>Last</button>
+      </div>
+    </Dialog>,
+  );
+  return { opener, ...view };
+}
+
+describe('Dialog', () => {
+  it('moves focus to the first control in the panel', () => {
+    renderDialog();
+    expect(document.activeElement).toBe(screen.getByRole('button', { name: 'First' }));
+  });
+
+  it('wraps Tab and Shift+Tab around inside the panel', () => {
+    renderDialog();
+    const first = screen.getByRole('button', { name: 'First' });
+    const last = screen.getByRole('button', { name: 'Last' });
+
+    last.focus();
+    fireEvent.keyDown(last, { key: 'Tab' });
+    expect(document.activeElement).toBe(first);
+
+    fireEvent.keyDown(first, { key: 'Tab', shiftKey: true });
+    expect(document.activeElement).toBe(last);
+  });
+
+  it('leaves Tab alone between the first and last controls', () => {
+    renderDialog();
+    const middle = screen.getByRole('textbox', { name: 'Middle' });
+    middle.focus();
+    expect(fireEvent.keyDown(middle, { key: 'Tab' })).toBe(true);
+  });
+
+  it('closes on Escape', () => {
+    const onClose = vi.fn();
+    renderDialog(onClose);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'First' }), { key: 'Escape' });
+    expect(onClose).toHaveBeenCalledOnce();
+  });
+
+  it('gives focus back to what had it before once closed', () => {
+    const { opener, unmount } = renderDialog();
+    unmount();
+    expect(document.activeElement).toBe(opener);
+    opener.remove();
+  });
+
+  it('is labelled as a modal dialog with no axe violations', async () => {
+    const { container } = renderDialog();
+    expect(screen.getByRole('dialog', { name: 'Settings' })).toHaveProperty('ariaModal', 'true');
+    // Contrast needs layout and canvas, which jsdom doesn't have
+    const results = await axe.run(container, { rules: { 'color-contrast': { enabled: false } } });
+    expect(results.violations).toEqual([]);
+  });
+});
@@ -0,0 +1,69 @@
+import { useEffect, useEffectEvent, useRef } from 'react';
+
+interface DialogProps {
+  label: string; // what a screen reader announces when the dialog opens
+  onClose: () => void; // Escape or a click outside the panel
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+function getFocusable(container: HTMLElement): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+}
+
+// Modal overlay for a panel. Focus moves into the panel and stays there until it closes,
+// then goes back to whatever had it before.
+export default function Dialog({ label, onClose, children }: DialogProps) {
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Tab and Shift+Tab wrap around inside the panel
+  const handleKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      onClose();
+      return;
+    }
+    const panel = panelRef.current;
+    if (e.key !== 'Tab' || !panel) return;
+    const focusable = getFocusable(panel);
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  });
+
+  useEffect(() => {
+    const previous = document.activeElement;
+    const panel = panelRef.current;
+    if (!panel) return;
+    (getFocusable(panel)[0] ?? panel).focus();
+    const listener = (e: KeyboardEvent) => handleKeyDown(e);
+    panel.addEventListener('keydown', listener);
+    return () => {
+      panel.removeEventListener('keydown', listener);
+      if (previous instanceof HTMLElement && previous.isConnected) previous.focus();
+    };
+  }, []);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={label}
+      className="fixed inset-0 flex items-center justify-center z-50 px-4"
+    >
+      {/* Backdrop; keyboard users close with Escape or the panel's own button */}
+      <div aria-hidden="true" className="absolute inset-0 bg-black/50 dark:bg-black/70 backdrop-blur-sm" onClick={onClose} />
+      <div ref={panelRef} tabIndex={-1} className="relative w-full flex justify-center pointer-events-none *:pointer-events-auto focus:outline-none">
+        {children}
+      </div>
+    </div>
+  );
+}
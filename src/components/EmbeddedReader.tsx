@@ -0,0 +1,231 @@
+'use client';
+
+import { useEffect, useEffectEvent, useState, useSyncExternalStore } from 'react';
+import AnchoredWord from '@/components/AnchoredWord';
+import { findKeyCommand, getKeyCombo, getServerBindings, isTypingTarget, loadBindings, subscribeToBindings } from '@/lib/commands';
+import { EMPTY_DOCUMENT, getSourceText, parseText } from '@/lib/document';
+import {
+  DEFAULT_EMBED_THEME,
+  getThemeProperty,
+  parseEmbedCommand,
+  toEmbedEvent,
+  type EmbedCommand,
+  type EmbedEventType,
+  type EmbedTheme,
+  type EmbedThemeKey,
+} from '@/lib/embed';
+import { extractArticle } from '@/lib/import/article';
+import { ImportError } from '@/lib/import/common';
+import { getRemainingTime, type ReaderState } from '@/lib/reader/engine';
+import { useReaderEngine } from '@/lib/reader/useReaderEngine';
+import { getServerSettings, loadSettings, subscribeToSettings } from '@/lib/settings';
+import { parseShareLink, type ShareLink } from '@/lib/share';
+
+// Classes for AnchoredWord that take their colours and font from the theme's custom properties
+const WORD_THEME = {
+  text: 'text-(--zoomer-text) opacity-70',
+  focal: 'text-(--zoomer-focal)',
+  font: 'font-(family-name:--zoomer-font)',
+};
+
+// Tell the host page about the reader's state. The host's origin isn't known, and nothing
+// posted includes the text.
+function postToHost(type: EmbedEventType, state: ReaderState): void {
+  if (window.parent !== window) window.parent.postMessage(toEmbedEvent(type, state), '*');
+}
+
+// The reader on its own, for the /embed page. The host page drives it with postMessage
+// commands and hears back about progress (see lib/embed); text can also come in the URL
+// fragment of a share link.
+export default function EmbeddedReader() {
+  const [engine, reader] = useReaderEngine();
+  const [theme, setTheme] = useState<EmbedTheme>(DEFAULT_EMBED_THEME);
+  const [error, setError] = useState<string | null>(null); // why a page sent by the host couldn't be read
+  const bindings = useSyncExternalStore(subscribeToBindings, loadBindings, getServerBindings);
+  const { minWpm, maxWpm, wpmStep } = useSyncExternalStore(subscribeToSettings, loadSettings, getServerSettings);
+  const { doc, index, playing, wpm } = reader;
+  const { start: chunkStart, end: chunkEnd } = reader.chunk;
+  const total = doc.tokens.length;
+
+  // Keep to the speed range set in the full app's settings
+  useEffect(() => engine.setSpeedRange(minWpm, maxWpm), [engine, minWpm, maxWpm]);
+
+  // Pull the article out of the host's page here, so the page only has to send its HTML
+  const openPage = (html: string, url: string) => {
+    try {
+      const article = extractArticle(new DOMParser().parseFromString(html, 'text/html'), url);
+      engine.load(parseText(article.text));
+      setError(null);
+    } catch (error) {
+      engine.load(EMPTY_DOCUMENT);
+      setError(error instanceof ImportError ? error.message : 'Couldn\'t find anything to read on this page.');
+    }
+  };
+
+  const runCommand = useEffectEvent((command: EmbedCommand) => {
+    switch (command.type) {
+      case 'load':
+        engine.load(parseText(command.text), command.index);
+        if (command.wpm !== null) engine.setSpeed(command.wpm);
+        setError(null);
+        break;
+      case 'loadPage':
+        openPage(command.html, command.url);
+        break;
+      case 'play':
+        engine.play();
+        break;
+      case 'pause':
+        engine.pause();
+        break;
+      case 'seek':
+        engine.seek(command.index);
+        break;
+      case 'speed':
+        engine.setSpeed(command.wpm);
+        break;
+      case 'theme':
+        setTheme((current) => ({ ...current, ...command.theme }));
+        break;
+    }
+  });
+
+  // Open a share link's text if there is one, then tell the host the reader is listening
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || e.source === window) return;
+      const command = parseEmbedCommand(e.data);
+      if (command) runCommand(command);
+    };
+    window.addEventListener('message', handleMessage);
+
+    let link: ShareLink | null = null;
+    try {
+      link = parseShareLink(window.location.hash);
+    } catch {
+      // A broken link just leaves the reader empty for the host to fill
+    }
+    if (link && link.source.kind === 'text') {
+      engine.load(parseText(link.source.text), link.word);
+      if (link.wpm !== null) engine.setSpeed(link.wpm);
+    }
+    postToHost('ready', engine.getState());
+    return () => window.removeEventListener('message', handleMessage);
+  }, [engine]);
+
+  // Report every change of word, speed or play state to the host
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('change', (state) => postToHost('progress', state)),
+      engine.on('play', (state) => postToHost('play', state)),
+      engine.on('pause', (state) => postToHost('pause', state)),
+      engine.on('end', (state) => postToHost('end', state)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [engine]);
+
+  // The reader's own shortcuts, as far as they apply here
+  const handleKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      postToHost('close', engine.getState());
+      return;
+    }
+    const combo = getKeyCombo(e);
+    if (!combo || isTypingTarget(e.target)) return;
+    const command = findKeyCommand(bindings, combo);
+    const actions: Partial<Record<NonNullable<typeof command>, () => void>> = {
+      togglePlay: () => engine.toggle(),
+      speedUp: () => engine.adjustSpeed(wpmStep),
+      speedDown: () => engine.adjustSpeed(-wpmStep),
+      previousWord: () => engine.skip('word', -1),
+      nextWord: () => engine.skip('word', 1),
+      previousSentence: () => engine.skip('sentence', -1),
+      nextSentence: () => engine.skip('sentence', 1),
+      previousParagraph: () => engine.skip('paragraph', -1),
+      nextParagraph: () => engine.skip('paragraph', 1),
+    };
+    const action = command && actions[command];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  });
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => handleKeyDown(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  const themeStyle = Object.fromEntries(
+    (Object.keys(theme) as EmbedThemeKey[]).map((key) => [getThemeProperty(key), theme[key]]),
+  ) as React.CSSProperties;
+  const currentWord = getSourceText(doc, chunkStart, chunkEnd).replace(/\s+/g, ' ');
+  const remainingSeconds = Math.ceil(getRemainingTime(reader) / 1000);
+
+  return (
+    <section
+      aria-label="Speed reader"
+      style={themeStyle}
+      className="fixed inset-0 flex flex-col bg-(--zoomer-background) text-(--zoomer-text) font-(family-name:--zoomer-font)"
+    >
+      {total === 0 ? (
+        <p role={error ? 'alert' : undefined} className="flex-1 flex items-center justify-center px-4 text-center text-sm opacity-60">
+          {error ?? 'Nothing to read yet.'}
+        </p>
+      ) : (
+        <button
+          onClick={() => engine.toggle()}
+          aria-label={playing ? 'Pause' : 'Play'}
+          className="relative flex-1 min-h-0 flex items-center justify-center cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-(--zoomer-accent)"
+        >
+          <span className="contents pointer-events-none">
+            <AnchoredWord text={currentWord} theme={WORD_THEME} />
+          </span>
+        </button>
+      )}
+
+      <div role="group" aria-label="Reader controls" className="flex items-center gap-2 sm:gap-3 px-3 py-2 text-xs">
+        <button
+          onClick={() => engine.toggle()}
+          disabled={total === 0}
+          className="px-3 py-1.5 rounded bg-(--zoomer-accent) text-white font-semibold cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {playing ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, total - 1)}
+          value={index}
+          disabled={total === 0}
+          aria-label="Position"
+          aria-valuetext={`Word ${index + 1} of ${total}`}
+          onChange={(e) => engine.seek(Number(e.target.value))}
+          onKeyDown={(e) => {
+            // Arrow keys move the slider rather than running the reader's shortcuts
+            if (e.key !== ' ') e.stopPropagation();
+          }}
+          className="flex-1 min-w-0 accent-(--zoomer-accent) cursor-pointer"
+        />
+        <span className="tabular-nums opacity-70 whitespace-nowrap">
+          {Math.floor(remainingSeconds / 60)}:{String(remainingSeconds % 60).padStart(2, '0')}
+        </span>
+        <button
+          onClick={() => engine.adjustSpeed(-wpmStep)}
+          aria-label="Slow down"
+          className="px-2 py-1 rounded border border-current/20 cursor-pointer"
+        >
+          −
+        </button>
+        <span className="tabular-nums whitespace-nowrap">{wpm} WPM</span>
+        <button
+          onClick={() => engine.adjustSpeed(wpmStep)}
+          aria-label="Speed up"
+          className="px-2 py-1 rounded border border-current/20 cursor-pointer"
+        >
+          +
+        </button>
+      </div>
+    </section>
+  );
+}
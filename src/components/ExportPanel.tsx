@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ChunkLimits } from '@/lib/chunking';
+import type { ReaderDocument } from '@/lib/document';
+import {
+  buildFrames,
+  downloadBlob,
+  EXPORT_FORMATS,
+  EXPORT_THEMES,
+  ExportError,
+  exportFrames,
+  getExportDuration,
+  getExportFileName,
+  RESOLUTIONS,
+  type ExportFormat,
+  type ExportThemeId,
+  type ResolutionId,
+} from '@/lib/export';
+import { FrameRenderer } from '@/lib/export/canvas';
+import { getSentenceRange } from '@/lib/marks';
+import type { TimingProfile } from '@/lib/timing';
+
+type PassageId = 'sentence' | 'paragraph' | 'document';
+
+interface ExportPanelProps {
+  doc: ReaderDocument;
+  title: string;
+  index: number; // current token; the passage is the sentence or paragraph around it
+  wpm: number;
+  timingProfile: TimingProfile;
+  chunkLimits: ChunkLimits;
+  theme: ExportThemeId; // closest to the reader's own theme
+  onClose: () => void;
+}
+
+const PASSAGES: Record<PassageId, string> = {
+  sentence: 'This sentence',
+  paragraph: 'This paragraph',
+  document: 'The whole text',
+};
+
+const WPM_OPTIONS = [150, 200, 250, 300, 350, 400, 500, 600, 700, 800, 1000];
+
+const SELECT_CLASS = 'px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-zinc-50 shadow-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+const LABEL_CLASS = 'text-sm font-semibold text-zinc-700 dark:text-zinc-300';
+
+// Token range [start, end] of the passage around `index`
+function getPassageRange(doc: ReaderDocument, index: number, passage: PassageId): [number, number] {
+  if (passage === 'sentence') return getSentenceRange(doc, index);
+  if (passage === 'document') return [0, doc.tokens.length - 1];
+  const paragraph = doc.tokens[index].paragraph;
+  return [doc.paragraphStarts[paragraph], (doc.paragraphStarts[paragraph + 1] ?? doc.tokens.length) - 1];
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Render a passage as a video or GIF of the anchored display, so it can be watched without the app
+export default function ExportPanel({ doc, title, index, wpm, timingProfile, chunkLimits, theme: readerTheme, onClose }: ExportPanelProps) {
+  const [passage, setPassage] = useState<PassageId>('paragraph');
+  const [format, setFormat] = useState<ExportFormat>('gif');
+  const [resolution, setResolution] = useState<ResolutionId>('sd');
+  const [theme, setTheme] = useState<ExportThemeId>(readerTheme);
+  const [exportWpm, setExportWpm] = useState(wpm);
+  const [progress, setProgress] = useState<number | null>(null); // 0–1 while exporting
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [start, end] = getPassageRange(doc, index, passage);
+  const options = { format, resolution, theme, wpm: exportWpm, timingProfile, chunkLimits };
+  // Splitting and timing the whole text is slow for long documents, so only redo it when the
+  // passage or its timing changes (not for the theme, size or export progress)
+  const frames = useMemo(
+    () => buildFrames(doc, start, end, { wpm: exportWpm, timingProfile, chunkLimits }),
+    [doc, start, end, exportWpm, timingProfile, chunkLimits],
+  );
+  const duration = getExportDuration(frames);
+  const isExporting = progress !== null;
+  const wpmOptions = WPM_OPTIONS.includes(wpm) ? WPM_OPTIONS : [...WPM_OPTIONS, wpm].sort((a, b) => a - b);
+
+  // Preview the first word with the chosen size and theme. The frame only changes along with
+  // `frames`, so the preview isn't redrawn on every render.
+  const firstFrame = frames[0];
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || isExporting) return;
+    let cancelled = false;
+    const { width, height } = RESOLUTIONS[resolution];
+    FrameRenderer.create(canvas, width, height, EXPORT_THEMES[theme])
+      .then((renderer) => {
+        if (!cancelled) renderer.draw(firstFrame ?? null);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [resolution, theme, firstFrame, isExporting]);
+
+  // Stop an export in progress if the panel closes
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setResult(null);
+    setError(null);
+    const fileName = getExportFileName(title, format);
+    try {
+      const blob = await exportFrames(canvas, frames, options, { onProgress: setProgress, signal: controller.signal });
+      downloadBlob(blob, fileName);
+      setResult(`Saved ${fileName} (${(blob.size / 1024 / 1024).toFixed(1)} MB)`);
+    } catch (error) {
+      setError(error instanceof ExportError ? error.message : 'Couldn\'t export the passage.');
+    }
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  return (
+    <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl bg-white dark:bg-zinc-800 shadow-2xl border border-zinc-200 dark:border-zinc-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-zinc-900 dark:text-zinc-50">Export as video or GIF</h2>
+        <button onClick={onClose} className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 cursor-pointer">
+          Close
+        </button>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        aria-label="Preview"
+        className="w-full h-auto max-h-56 object-contain rounded-lg border border-zinc-200 dark:border-zinc-700"
+      />
+
+      <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-3">
+        <label htmlFor="export-passage" className={LABEL_CLASS}>Passage</label>
+        <select id="export-passage" value={passage} disabled={isExporting} onChange={(e) => setPassage(e.target.value as PassageId)} className={SELECT_CLASS}>
+          {(Object.keys(PASSAGES) as PassageId[]).map((id) => (
+            <option key={id} value={id}>{PASSAGES[id]}</option>
+          ))}
+        </select>
+
+        <label htmlFor="export-format" className={LABEL_CLASS}>Format</label>
+        <select id="export-format" value={format} disabled={isExporting} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={SELECT_CLASS}>
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((id) => (
+            <option key={id} value={id}>{EXPORT_FORMATS[id].label}</option>
+          ))}
+        </select>
+
+        <label htmlFor="export-resolution" className={LABEL_CLASS}>Size</label>
+        <select id="export-resolution" value={resolution} disabled={isExporting} onChange={(e) => setResolution(e.target.value as ResolutionId)} className={SELECT_CLASS}>
+          {(Object.keys(RESOLUTIONS) as ResolutionId[]).map((id) => (
+            <option key={id} value={id}>{RESOLUTIONS[id].label}</option>
+          ))}
+        </select>
+
+        <label htmlFor="export-wpm" className={LABEL_CLASS}>Speed</label>
+        <select id="export-wpm" value={exportWpm} disabled={isExporting} onChange={(e) => setExportWpm(Number(e.target.value))} className={SELECT_CLASS}>
+          {wpmOptions.map((option) => (
+            <option key={option} value={option}>{option} WPM</option>
+          ))}
+        </select>
+
+        <label htmlFor="export-theme" className={LABEL_CLASS}>Theme</label>
+        <select id="export-theme" value={theme} disabled={isExporting} onChange={(e) => setTheme(e.target.value as ExportThemeId)} className={SELECT_CLASS}>
+          {(Object.keys(EXPORT_THEMES) as ExportThemeId[]).map((id) => (
+            <option key={id} value={id}>{EXPORT_THEMES[id].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+        {frames.length} {frames.length === 1 ? 'frame' : 'frames'}, {formatDuration(duration)} long.{' '}
+        {format === 'webm'
+          ? 'Video is recorded in real time, so this takes as long as the passage does; keep this tab in front.'
+          : 'Each word is one frame, so long passages make large files.'}
+      </p>
+
+      {isExporting && (
+        <div
+          role="progressbar"
+          aria-label="Export progress"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress * 100)}
+          className="w-full h-2 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden"
+        >
+          <div className="h-full bg-gradient-to-r from-blue-600 to-blue-500" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+      {result && <p role="status" className="text-sm text-green-700 dark:text-green-400">{result}</p>}
+      {error && <p role="alert" className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end gap-3 pt-2 border-t border-zinc-200 dark:border-zinc-700">
+        {isExporting ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 text-sm font-semibold hover:bg-zinc-300 dark:hover:bg-zinc-600 cursor-pointer"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleExport}
+            disabled={frames.length === 0}
+            className="px-4 py-2 rounded-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white text-sm font-semibold hover:from-blue-700 hover:to-blue-800 disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+          >
+            ⬇ Export {EXPORT_FORMATS[format].label}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { LibraryDocument } from '@/lib/library';
+import { dequeue, enqueue } from '@/lib/queue';
+
+interface LibraryPanelProps {
+  documents: LibraryDocument[];
+  queue: string[]; // ids of the queued documents
+  onOpen: (entry: LibraryDocument) => void;
+  onDelete: (id: string) => void;
+}
+
+// Format a timestamp as a short relative date ("today", "3 days ago")
+function formatLastRead(timestamp: number): string {
+  const days = Math.floor((Date.now() - timestamp) / (24 * 60 * 60 * 1000));
+  if (days <= 0) return 'today';
+  if (days === 1) return 'yesterday';
+  return `${days} days ago`;
+}
+
+// Saved documents with their reading progress; opening one resumes at the last word read
+export default function LibraryPanel({ documents, queue, onOpen, onDelete }: LibraryPanelProps) {
+  return (
+    <div className="p-6 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 shadow-md space-y-3">
+      <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-50 flex items-center gap-2">
+        <span className="text-lg">📚</span>
+        Your Library
+      </h2>
+      <ul className="space-y-2">
+        {documents.map((entry) => {
+          const percent = entry.wordCount > 0 ? Math.round(((entry.position + 1) / entry.wordCount) * 100) : 0;
+          const isQueued = queue.includes(entry.id);
+          return (
+            <li
+              key={entry.id}
+              className="flex items-center gap-3 p-3 rounded-xl bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-200 dark:border-zinc-700"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 truncate">{entry.title}</p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {entry.wordCount.toLocaleString()} words • word {entry.position + 1} • {percent}% complete • read {formatLastRead(entry.updatedAt)}
+                </p>
+                <div className="mt-1.5 w-full h-1 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-blue-500 to-blue-600" style={{ width: `${percent}%` }} />
+                </div>
+              </div>
+              <button
+                onClick={() => onOpen(entry)}
+                className="px-3 py-1.5 rounded-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white text-xs font-semibold hover:from-blue-700 hover:to-blue-800 transition-colors cursor-pointer whitespace-nowrap"
+              >
+                {entry.position > 0 ? '▶ Resume' : '▶ Open'}
+              </button>
+              <button
+                onClick={() => (isQueued ? dequeue(entry.id) : enqueue(entry.id))}
+                title={isQueued ? 'Remove from queue' : 'Add to the end of the reading queue'}
+                aria-pressed={isQueued}
+                className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors cursor-pointer whitespace-nowrap ${isQueued ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300' : 'bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-300 dark:hover:bg-zinc-600'}`}
+              >
+                {isQueued ? '✓ Queued' : '＋ Queue'}
+              </button>
+              <button
+                onClick={() => onDelete(entry.id)}
+                title="Remove from library"
+                aria-label={`Remove ${entry.title} from library`}
+                className="px-2 py-1.5 rounded-lg text-xs text-zinc-500 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors cursor-pointer"
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { getSourceText, type ReaderDocument } from '@/lib/document';
+import { deleteMark, exportMarksMarkdown, getSentenceRange, type Mark } from '@/lib/marks';
+
+interface MarksPanelProps {
+  doc: ReaderDocument;
+  title: string;
+  marks: Mark[]; // this document's marks, in reading order
+  onSelect: (mark: Mark) => void;
+}
+
+// Save the marks as a Markdown file
+function downloadMarkdown(title: string, markdown: string): void {
+  const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'notes'} - notes.md`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Bookmarks and highlights in the open document; clicking one jumps back to it
+export default function MarksPanel({ doc, title, marks, onSelect }: MarksPanelProps) {
+  return (
+    <div className="w-full max-w-2xl rounded-xl bg-white/90 dark:bg-zinc-800/90 backdrop-blur-sm shadow-lg border border-zinc-200 dark:border-zinc-700 cursor-default">
+      <div className="flex items-center justify-between px-4 pt-3 text-xs text-zinc-500 dark:text-zinc-400">
+        <span>{marks.length === 1 ? '1 mark' : `${marks.length} marks`} • click one to jump back to it</span>
+        {marks.length > 0 && (
+          <button
+            onClick={() => downloadMarkdown(title, exportMarksMarkdown(title, doc, marks))}
+            className="px-2 py-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 cursor-pointer"
+          >
+            ⬇ Export as Markdown
+          </button>
+        )}
+      </div>
+      {marks.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-zinc-500 dark:text-zinc-400">
+          No marks yet. Use the bookmark, highlight or note shortcut while reading; playback keeps going.
+        </p>
+      ) : (
+        <ul className="px-2 py-2 max-h-40 sm:max-h-48 overflow-y-auto">
+          {marks.map((mark) => {
+            const [sentenceStart] = getSentenceRange(doc, mark.start);
+            const [, sentenceEnd] = getSentenceRange(doc, mark.end);
+            const flatten = (from: number, to: number) => getSourceText(doc, from, to).replace(/\s+/g, ' ');
+            return (
+              <li key={mark.id} className="flex items-start gap-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-700/50">
+                <button
+                  onClick={() => onSelect(mark)}
+                  className="flex-1 min-w-0 text-left px-2 py-1.5 cursor-pointer"
+                >
+                  <span dir="auto" className="block text-sm text-zinc-800 dark:text-zinc-200 truncate">
+                    {mark.kind === 'highlight' ? '🖍' : '🔖'} {flatten(sentenceStart, mark.start - 1)}{' '}
+                    <strong className={mark.kind === 'bookmark' ? 'text-red-600 dark:text-red-500' : 'font-normal bg-yellow-200/60 dark:bg-yellow-500/30'}>
+                      {flatten(mark.start, mark.end)}
+                    </strong>
+                    {' '}{flatten(mark.end + 1, sentenceEnd)}
+                  </span>
+                  <span className="block text-xs text-zinc-500 dark:text-zinc-400 truncate">
+                    Word {mark.start + 1}{mark.note && ` — ${mark.note}`}
+                  </span>
+                </button>
+                <button
+                  onClick={() => deleteMark(mark.id)}
+                  aria-label="Delete mark"
+                  className="px-2 py-1.5 text-xs text-zinc-400 hover:text-red-600 cursor-pointer"
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { LibraryDocument } from '@/lib/library';
+import { getQueueStartPosition } from '@/lib/queue';
+
+interface QueueCardProps {
+  entry: LibraryDocument; // the document about to start
+  remaining: number; // documents left in the queue, including this one
+  seconds: number; // until it starts
+  wpm: number;
+  onStart: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}
+
+// Title card shown between queued documents, counting down to the next one
+export default function QueueCard({ entry, remaining, seconds, wpm, onStart, onSkip, onStop }: QueueCardProps) {
+  const position = getQueueStartPosition(entry);
+  const wordsLeft = position > 0 ? entry.wordCount - position - 1 : entry.wordCount;
+  const minutes = Math.max(1, Math.round(wordsLeft / wpm));
+
+  return (
+    <div className="w-full max-w-lg rounded-2xl bg-white dark:bg-zinc-800 shadow-2xl border border-zinc-200 dark:border-zinc-700 p-6 space-y-4 text-center">
+      <p className="text-xs font-bold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+        Up next{remaining > 1 && ` • ${remaining - 1} more after this`}
+      </p>
+      <h2 className="text-2xl font-bold text-zinc-900 dark:text-zinc-50">{entry.title}</h2>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400">
+        {entry.wordCount.toLocaleString()} words
+        {position > 0 && ` • resuming at word ${position + 1}`}
+        {' '}• about {minutes} min at {wpm} WPM
+      </p>
+      <p aria-live="polite" className="text-6xl font-bold text-blue-600 dark:text-blue-400 motion-safe:animate-pulse">
+        {seconds}
+      </p>
+      <div className="flex items-center justify-center gap-3">
+        <button
+          onClick={onStart}
+          className="px-5 py-2 rounded-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white text-sm font-semibold hover:from-blue-700 hover:to-blue-800 transition-colors cursor-pointer"
+        >
+          ▶ Start now
+        </button>
+        <button
+          onClick={onSkip}
+          className="px-4 py-2 rounded-lg bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 text-sm font-semibold hover:bg-zinc-300 dark:hover:bg-zinc-600 transition-colors cursor-pointer"
+        >
+          ⏭ Skip
+        </button>
+        <button
+          onClick={onStop}
+          className="px-4 py-2 rounded-lg text-sm text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 cursor-pointer"
+        >
+          Stop queue
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { LibraryDocument } from '@/lib/library';
+import { clearQueue, dequeue, getQueueStartPosition, moveInQueue } from '@/lib/queue';
+
+interface QueuePanelProps {
+  documents: LibraryDocument[]; // queued documents, in reading order
+  onPlay: () => void;
+}
+
+const MOVE_CLASS = 'w-7 h-7 rounded-lg text-xs text-zinc-500 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors cursor-pointer';
+
+// Documents lined up to read one after another, each with its own progress
+export default function QueuePanel({ documents, onPlay }: QueuePanelProps) {
+  const totalWords = documents.reduce((sum, entry) => sum + entry.wordCount - getQueueStartPosition(entry), 0);
+
+  return (
+    <div className="p-6 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 shadow-md space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-50 flex items-center gap-2">
+          <span className="text-lg">📋</span>
+          Reading Queue
+          <span className="font-normal text-xs text-zinc-500 dark:text-zinc-400">
+            {documents.length === 1 ? '1 item' : `${documents.length} items`} • {totalWords.toLocaleString()} words to go
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={clearQueue}
+            className="px-2 py-1.5 rounded-lg text-xs text-zinc-500 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors cursor-pointer"
+          >
+            Clear
+          </button>
+          <button
+            onClick={onPlay}
+            className="px-3 py-1.5 rounded-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white text-xs font-semibold hover:from-blue-700 hover:to-blue-800 transition-colors cursor-pointer whitespace-nowrap"
+          >
+            ▶ Play queue
+          </button>
+        </div>
+      </div>
+      <ol className="space-y-2">
+        {documents.map((entry, i) => {
+          const percent = entry.wordCount > 0 ? Math.round(((entry.position + 1) / entry.wordCount) * 100) : 0;
+          return (
+            <li
+              key={entry.id}
+              className="flex items-center gap-3 p-3 rounded-xl bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-200 dark:border-zinc-700"
+            >
+              <span className="w-5 text-sm font-mono text-zinc-400 dark:text-zinc-500 text-right">{i + 1}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-50 truncate">{entry.title}</p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {entry.wordCount.toLocaleString()} words • {entry.position > 0 ? `${percent}% read` : 'not started'}
+                </p>
+                <div className="mt-1.5 w-full h-1 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-gradient-to-r from-blue-500 to-blue-600" style={{ width: `${entry.position > 0 ? percent : 0}%` }} />
+                </div>
+              </div>
+              <button
+                onClick={() => moveInQueue(entry.id, -1)}
+                disabled={i === 0}
+                aria-label={`Move ${entry.title} up`}
+                className={MOVE_CLASS}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveInQueue(entry.id, 1)}
+                disabled={i === documents.length - 1}
+                aria-label={`Move ${entry.title} down`}
+                className={MOVE_CLASS}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => dequeue(entry.id)}
+                title="Remove from queue"
+                aria-label={`Remove ${entry.title} from queue`}
+                className="px-2 py-1.5 rounded-lg text-xs text-zinc-500 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors cursor-pointer"
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
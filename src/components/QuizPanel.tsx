@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import type { QuizQuestion } from '@/lib/quiz';
+
+interface QuizPanelProps {
+  questions: QuizQuestion[];
+  wpm: number; // speed the passage was read at, shown with the score
+  onFinish: (correct: number) => void; // called once, after the last answer
+  onClose: () => void;
+}
+
+// Multiple-choice questions shown one at a time, with the right answer revealed after each pick
+export default function QuizPanel({ questions, wpm, onFinish, onClose }: QuizPanelProps) {
+  const [current, setCurrent] = useState(0);
+  const [picked, setPicked] = useState<number | null>(null);
+  const [correct, setCorrect] = useState(0);
+  const isDone = current >= questions.length;
+  const question = questions[current];
+
+  const pick = (choice: number) => {
+    if (picked !== null) return;
+    setPicked(choice);
+    if (choice === question.answer) setCorrect(correct + 1);
+  };
+
+  const next = () => {
+    if (current === questions.length - 1) onFinish(correct);
+    setCurrent(current + 1);
+    setPicked(null);
+  };
+
+  return (
+    <div className="w-full max-w-lg rounded-2xl bg-white dark:bg-zinc-800 shadow-2xl border border-zinc-200 dark:border-zinc-700 p-6 space-y-4">
+      <div className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
+        <span>{isDone ? 'Comprehension check' : `Question ${current + 1} of ${questions.length}`}</span>
+        <button onClick={onClose} className="hover:text-zinc-900 dark:hover:text-zinc-100 cursor-pointer">
+          {isDone ? 'Close' : 'Skip quiz'}
+        </button>
+      </div>
+
+      {isDone ? (
+        <div className="text-center space-y-2 py-4">
+          <p className="text-4xl font-bold text-zinc-900 dark:text-zinc-50">{correct} / {questions.length}</p>
+          <p className="text-sm text-zinc-600 dark:text-zinc-400">
+            {Math.round((correct / questions.length) * 100)}% at {wpm} WPM. Your scores by speed are on the stats page.
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="font-semibold text-zinc-900 dark:text-zinc-50">{question.prompt}</p>
+          {question.passage && (
+            <p dir="auto" className="text-sm leading-relaxed text-zinc-700 dark:text-zinc-300 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-900">
+              {question.passage}
+            </p>
+          )}
+          <div className="grid gap-2">
+            {question.choices.map((choice, i) => {
+              const state = picked === null ? 'open' : i === question.answer ? 'right' : i === picked ? 'wrong' : 'other';
+              return (
+                <button
+                  key={choice}
+                  onClick={() => pick(i)}
+                  disabled={picked !== null}
+                  className={`text-left px-4 py-2 rounded-lg border-2 text-sm transition-colors ${
+                    state === 'right'
+                      ? 'border-green-500 bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+                      : state === 'wrong'
+                        ? 'border-red-500 bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200'
+                        : state === 'other'
+                          ? 'border-zinc-200 dark:border-zinc-700 text-zinc-400 dark:text-zinc-500'
+                          : 'border-zinc-200 dark:border-zinc-700 text-zinc-800 dark:text-zinc-200 hover:border-blue-500 cursor-pointer'
+                  }`}
+                >
+                  {choice}
+                </button>
+              );
+            })}
+          </div>
+          {picked !== null && (
+            <button
+              onClick={next}
+              className="w-full px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-colors cursor-pointer"
+            >
+              {current === questions.length - 1 ? 'See score' : 'Next question'}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Install the offline service worker. Skipped in development, where cached scripts would
+// get in the way of hot reloading. The build id in its URL makes every deploy install it
+// afresh, with a new cache in place of the last build's.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker
+      .register(`/sw.js?build=${process.env.NEXT_PUBLIC_BUILD_ID}`)
+      .catch(() => {}); // e.g. private browsing; the app still works online
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,226 @@
+import {
+  FONT_FAMILIES,
+  FONT_SIZES,
+  PAUSE_FIELDS,
+  resetSettings,
+  THEMES,
+  updateSettings,
+  type FontFamilyId,
+  type FontSizeId,
+  type PauseField,
+  type ReaderSettings,
+  type ThemeId,
+} from '@/lib/settings';
+import type { TimingProfile } from '@/lib/timing';
+
+interface SettingsPanelProps {
+  settings: ReaderSettings;
+  presetProfile: TimingProfile; // the pacing preset's own timing, shown for pauses that aren't overridden
+  onClose: () => void;
+}
+
+const MIN_WPM_OPTIONS = [50, 100, 150, 200, 300];
+const MAX_WPM_OPTIONS = [600, 800, 1000, 1200, 1500, 2000];
+const WPM_STEP_OPTIONS = [10, 25, 50, 100];
+
+// Focal letter colour shown in the picker when no custom colour is set (Tailwind red-600)
+const THEME_FOCAL_COLOR = '#dc2626';
+
+const SELECT_CLASS = 'px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-sm text-zinc-900 dark:text-zinc-50 shadow-sm cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500';
+const LABEL_CLASS = 'text-sm font-semibold text-zinc-700 dark:text-zinc-300';
+
+// Display and control preferences; every change is saved as it's made
+export default function SettingsPanel({ settings, presetProfile, onClose }: SettingsPanelProps) {
+  const hasPauseOverrides = Object.keys(settings.pauses).length > 0;
+
+  return (
+    <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl bg-white dark:bg-zinc-800 shadow-2xl border border-zinc-200 dark:border-zinc-700 p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-zinc-900 dark:text-zinc-50">Settings</h2>
+        <button onClick={onClose} className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 cursor-pointer">
+          Close
+        </button>
+      </div>
+
+      <section className="space-y-3">
+        <h3 className="text-xs font-bold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Display</h3>
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-3">
+          <label htmlFor="settings-theme" className={LABEL_CLASS}>Theme</label>
+          <select
+            id="settings-theme"
+            value={settings.theme}
+            onChange={(e) => updateSettings({ theme: e.target.value as ThemeId })}
+            className={SELECT_CLASS}
+          >
+            {(Object.keys(THEMES) as ThemeId[]).map((id) => (
+              <option key={id} value={id}>{THEMES[id].label}</option>
+            ))}
+          </select>
+
+          <label htmlFor="settings-font" className={LABEL_CLASS}>Font</label>
+          <select
+            id="settings-font"
+            value={settings.fontFamily}
+            disabled={THEMES[settings.theme].font !== null}
+            title={THEMES[settings.theme].font !== null ? 'Set by the theme' : undefined}
+            onChange={(e) => updateSettings({ fontFamily: e.target.value as FontFamilyId })}
+            className={`${SELECT_CLASS} disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            {(Object.keys(FONT_FAMILIES) as FontFamilyId[]).map((id) => (
+              <option key={id} value={id}>{FONT_FAMILIES[id].label}</option>
+            ))}
+          </select>
+
+          <label htmlFor="settings-size" className={LABEL_CLASS}>Size</label>
+          <select
+            id="settings-size"
+            value={settings.fontSize}
+            onChange={(e) => updateSettings({ fontSize: e.target.value as FontSizeId })}
+            className={SELECT_CLASS}
+          >
+            {(Object.keys(FONT_SIZES) as FontSizeId[]).map((id) => (
+              <option key={id} value={id}>{FONT_SIZES[id].label}</option>
+            ))}
+          </select>
+
+          <label htmlFor="settings-focal-color" className={LABEL_CLASS}>Focal letter</label>
+          <div className="flex items-center gap-3">
+            <input
+              id="settings-focal-color"
+              type="color"
+              value={settings.focalColor ?? THEME_FOCAL_COLOR}
+              onChange={(e) => updateSettings({ focalColor: e.target.value })}
+              className="w-10 h-8 rounded cursor-pointer bg-transparent"
+            />
+            {settings.focalColor && (
+              <button
+                onClick={() => updateSettings({ focalColor: null })}
+                className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 cursor-pointer"
+              >
+                Use the theme&apos;s colour
+              </button>
+            )}
+          </div>
+
+          <span className={LABEL_CLASS}>Guide lines</span>
+          <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.showGuides}
+              onChange={(e) => updateSettings({ showGuides: e.target.checked })}
+              className="w-4 h-4 accent-blue-600"
+            />
+            Show lines marking the focal point
+          </label>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <h3 className="text-xs font-bold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Controls</h3>
+        <div className="grid grid-cols-[auto_1fr] items-center gap-x-4 gap-y-3">
+          <label htmlFor="settings-countdown" className={LABEL_CLASS}>Countdown</label>
+          <div className="flex items-center gap-3">
+            <input
+              id="settings-countdown"
+              type="range"
+              min="0"
+              max="10"
+              step="1"
+              value={settings.countdownSeconds}
+              onChange={(e) => updateSettings({ countdownSeconds: Number(e.target.value) })}
+              className="w-40 accent-blue-600 cursor-pointer"
+            />
+            <span className="text-sm text-zinc-600 dark:text-zinc-400">
+              {settings.countdownSeconds === 0 ? 'Off' : `${settings.countdownSeconds}s`}
+            </span>
+          </div>
+
+          <span className={LABEL_CLASS}>Speed range</span>
+          <div className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+            <select
+              aria-label="Slowest speed"
+              value={settings.minWpm}
+              onChange={(e) => updateSettings({ minWpm: Number(e.target.value) })}
+              className={SELECT_CLASS}
+            >
+              {MIN_WPM_OPTIONS.map((wpm) => <option key={wpm} value={wpm}>{wpm}</option>)}
+            </select>
+            to
+            <select
+              aria-label="Fastest speed"
+              value={settings.maxWpm}
+              onChange={(e) => updateSettings({ maxWpm: Number(e.target.value) })}
+              className={SELECT_CLASS}
+            >
+              {MAX_WPM_OPTIONS.map((wpm) => <option key={wpm} value={wpm}>{wpm}</option>)}
+            </select>
+            WPM
+          </div>
+
+          <label htmlFor="settings-wpm-step" className={LABEL_CLASS}>Speed step</label>
+          <div className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+            <select
+              id="settings-wpm-step"
+              value={settings.wpmStep}
+              onChange={(e) => updateSettings({ wpmStep: Number(e.target.value) })}
+              className={SELECT_CLASS}
+            >
+              {WPM_STEP_OPTIONS.map((step) => <option key={step} value={step}>{step}</option>)}
+            </select>
+            WPM per arrow key press
+          </div>
+        </div>
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">Punctuation pauses</h3>
+          {hasPauseOverrides && (
+            <button
+              onClick={() => updateSettings({ pauses: {} })}
+              className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-blue-600 dark:hover:text-blue-400 cursor-pointer"
+            >
+              Use pacing preset
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          How much longer a word stays on screen when followed by punctuation. Changes here replace the pacing preset&apos;s values.
+        </p>
+        <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-4 gap-y-2">
+          {(Object.keys(PAUSE_FIELDS) as PauseField[]).map((field) => {
+            const value = settings.pauses[field] ?? presetProfile[field];
+            return (
+              <label key={field} className="contents">
+                <span className={LABEL_CLASS}>{PAUSE_FIELDS[field]}</span>
+                <input
+                  type="range"
+                  min="1"
+                  max="4"
+                  step="0.1"
+                  value={value}
+                  onChange={(e) => updateSettings({ pauses: { ...settings.pauses, [field]: Number(e.target.value) } })}
+                  className="accent-blue-600 cursor-pointer"
+                />
+                <span className={`text-sm font-mono ${field in settings.pauses ? 'text-blue-600 dark:text-blue-400' : 'text-zinc-500 dark:text-zinc-400'}`}>
+                  ×{value.toFixed(1)}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      </section>
+
+      <div className="flex justify-end pt-2 border-t border-zinc-200 dark:border-zinc-700">
+        <button
+          onClick={() => {
+            if (window.confirm('Reset all settings to their defaults?')) resetSettings();
+          }}
+          className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useEffectEvent, useState } from 'react';
+import {
+  bindButton,
+  bindKey,
+  COMMAND_IDS,
+  COMMANDS,
+  findButtonCommand,
+  findKeyCommand,
+  formatButton,
+  formatKeyCombo,
+  getKeyCombo,
+  resetBindings,
+  unbindButton,
+  unbindKey,
+  type CommandId,
+  type InputBindings,
+} from '@/lib/commands';
+import { watchGamepadButtons } from '@/lib/gamepad';
+
+interface ShortcutsPanelProps {
+  bindings: InputBindings;
+  onClose: () => void;
+}
+
+// A key combo or gamepad button being assigned to a command
+type Binding = { kind: 'key'; combo: string } | { kind: 'button'; button: number };
+
+const CHIP_CLASS = 'inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-zinc-800 dark:text-zinc-200 bg-white dark:bg-zinc-700 border border-zinc-300 dark:border-zinc-600 rounded-md shadow-sm font-mono';
+const ADD_CLASS = 'px-2 py-1 text-xs rounded-md border border-dashed border-zinc-300 dark:border-zinc-600 text-zinc-500 dark:text-zinc-400 hover:border-blue-500 hover:text-blue-600 dark:hover:text-blue-400 cursor-pointer';
+
+function describeBinding(binding: Binding): string {
+  return binding.kind === 'key' ? formatKeyCombo(binding.combo) : formatButton(binding.button);
+}
+
+// Help overlay listing every command with its keys and gamepad buttons, where each can be rebound
+export default function ShortcutsPanel({ bindings, onClose }: ShortcutsPanelProps) {
+  const [recording, setRecording] = useState<{ command: CommandId; kind: Binding['kind'] } | null>(null);
+  const [conflict, setConflict] = useState<{ command: CommandId; binding: Binding; other: CommandId } | null>(null);
+
+  const assign = (command: CommandId, binding: Binding) => {
+    if (binding.kind === 'key') bindKey(command, binding.combo);
+    else bindButton(command, binding.button);
+    setConflict(null);
+  };
+
+  // Bind what was pressed, unless another command already has it; then ask first
+  const handleRecorded = (binding: Binding) => {
+    if (!recording) return;
+    const other = binding.kind === 'key' ? findKeyCommand(bindings, binding.combo) : findButtonCommand(bindings, binding.button);
+    setRecording(null);
+    if (other === recording.command) return;
+    if (other) {
+      setConflict({ command: recording.command, binding, other });
+    } else {
+      assign(recording.command, binding);
+    }
+  };
+
+  // While recording, the next key press is captured before the reader or the page sees it.
+  // Otherwise Escape or the help key closes the panel.
+  const handleKeyDown = useEffectEvent((e: KeyboardEvent) => {
+    if (recording?.kind === 'key') {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = getKeyCombo(e);
+      if (combo) handleRecorded({ kind: 'key', combo });
+      return;
+    }
+    if (e.key === 'Escape' || bindings.keys.showHelp.includes(getKeyCombo(e) ?? '')) {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    }
+  });
+
+  const handleButton = useEffectEvent((button: number) => {
+    if (recording?.kind === 'button') handleRecorded({ kind: 'button', button });
+  });
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => handleKeyDown(e);
+    window.addEventListener('keydown', listener, true);
+    return () => window.removeEventListener('keydown', listener, true);
+  }, []);
+
+  useEffect(() => watchGamepadButtons((button) => handleButton(button)), []);
+
+  return (
+    <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl bg-white dark:bg-zinc-800 shadow-2xl border border-zinc-200 dark:border-zinc-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold text-zinc-900 dark:text-zinc-50">Keyboard and gamepad shortcuts</h2>
+        <button onClick={onClose} className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-zinc-100 cursor-pointer">
+          Close
+        </button>
+      </div>
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">
+        Click × to remove a binding, or + to add one and then press the key, controller button or pedal.
+        Controllers and foot pedals that show up as gamepads work once you&apos;ve pressed one of their buttons.
+      </p>
+
+      {conflict && (
+        <div role="alert" className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 text-sm text-yellow-900 dark:text-yellow-200">
+          <span className="flex-1">
+            <strong>{describeBinding(conflict.binding)}</strong> is already used for {COMMANDS[conflict.other].label}.
+          </span>
+          <button
+            onClick={() => assign(conflict.command, conflict.binding)}
+            className="px-3 py-1 rounded bg-yellow-600 text-white text-xs font-semibold hover:bg-yellow-700 cursor-pointer"
+          >
+            Use it for {COMMANDS[conflict.command].label}
+          </button>
+          <button onClick={() => setConflict(null)} className="text-xs hover:underline cursor-pointer">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-zinc-500 dark:text-zinc-400">
+            <th className="py-2 font-medium">Action</th>
+            <th className="py-2 font-medium">Keys</th>
+            <th className="py-2 font-medium">Gamepad</th>
+          </tr>
+        </thead>
+        <tbody>
+          {COMMAND_IDS.map((command) => (
+            <tr key={command} className="border-t border-zinc-100 dark:border-zinc-700/50">
+              <td className="py-2 pr-4 font-medium text-zinc-800 dark:text-zinc-200 whitespace-nowrap">{COMMANDS[command].label}</td>
+              {(['key', 'button'] as const).map((kind) => {
+                const isRecording = recording?.command === command && recording.kind === kind;
+                const chips = kind === 'key'
+                  ? bindings.keys[command].map((combo) => ({ id: combo, label: formatKeyCombo(combo), remove: () => unbindKey(command, combo) }))
+                  : bindings.buttons[command].map((button) => ({ id: String(button), label: formatButton(button), remove: () => unbindButton(command, button) }));
+                return (
+                  <td key={kind} className="py-2 pr-4">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {chips.map((chip) => (
+                        <kbd key={chip.id} className={CHIP_CLASS}>
+                          {chip.label}
+                          <button
+                            onClick={chip.remove}
+                            aria-label={`Remove ${chip.label} from ${COMMANDS[command].label}`}
+                            className="text-zinc-400 hover:text-red-600 cursor-pointer"
+                          >
+                            ×
+                          </button>
+                        </kbd>
+                      ))}
+                      <button
+                        onClick={() => {
+                          setConflict(null);
+                          setRecording(isRecording ? null : { command, kind });
+                        }}
+                        aria-label={`Add a ${kind === 'key' ? 'key' : 'gamepad button'} for ${COMMANDS[command].label}`}
+                        className={`${ADD_CLASS} ${isRecording ? 'border-blue-500 text-blue-600 dark:text-blue-400 motion-safe:animate-pulse' : ''}`}
+                      >
+                        {isRecording ? (kind === 'key' ? 'Press a key…' : 'Press a button…') : '+'}
+                      </button>
+                    </div>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex justify-end pt-2 border-t border-zinc-200 dark:border-zinc-700">
+        <button
+          onClick={() => {
+            if (window.confirm('Reset all shortcuts to their defaults?')) resetBindings();
+          }}
+          className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+        >
+          Reset to defaults
+        </button>
+      </div>
+    </div>
+  );
+}
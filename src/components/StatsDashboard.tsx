@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import Link from 'next/link';
+import ComprehensionChart from '@/components/ComprehensionChart';
+import DailyWordsChart from '@/components/DailyWordsChart';
+import WpmChart from '@/components/WpmChart';
+import {
+  clearSessions,
+  getDailyWords,
+  getServerSessions,
+  getStreaks,
+  loadSessions,
+  subscribeToSessions,
+} from '@/lib/stats';
+import { clearQuizResults, getServerQuizResults, loadQuizResults, subscribeToQuizResults } from '@/lib/quiz';
+
+// Format milliseconds as "1h 5m" or "12m"
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+// Reading history: speed over time, daily words, streaks and recent sessions
+export default function StatsDashboard() {
+  const sessions = useSyncExternalStore(subscribeToSessions, loadSessions, getServerSessions);
+  const quizResults = useSyncExternalStore(subscribeToQuizResults, loadQuizResults, getServerQuizResults);
+  const [now] = useState(() => Date.now());
+
+  const totalWords = sessions.reduce((sum, session) => sum + session.wordsRead, 0);
+  const totalMs = sessions.reduce((sum, session) => sum + session.activeMs, 0);
+  const overallWpm = totalMs > 0 ? Math.round(totalWords / (totalMs / 60000)) : 0;
+  const streaks = getStreaks(sessions, now);
+  const recentSessions = sessions.slice(-50);
+
+  const summary = [
+    { label: 'Words read', value: totalWords.toLocaleString() },
+    { label: 'Time reading', value: formatDuration(totalMs) },
+    { label: 'Average speed', value: `${overallWpm} WPM` },
+    { label: 'Current streak', value: `${streaks.current} ${streaks.current === 1 ? 'day' : 'days'}` },
+    { label: 'Longest streak', value: `${streaks.longest} ${streaks.longest === 1 ? 'day' : 'days'}` },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zinc-50 via-blue-50/30 to-zinc-100 dark:from-black dark:via-zinc-950 dark:to-zinc-900 font-sans">
+      <main className="mx-auto w-full max-w-4xl px-6 sm:px-12 py-12 space-y-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl sm:text-4xl font-extrabold bg-gradient-to-r from-blue-600 via-purple-600 to-red-600 dark:from-blue-400 dark:via-purple-400 dark:to-red-400 bg-clip-text text-transparent">
+            Reading Stats
+          </h1>
+          <Link href="/" className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline">
+            ← Back to reader
+          </Link>
+        </div>
+
+        {sessions.length === 0 ? (
+          <p className="p-8 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400">
+            No reading sessions yet. Sessions are recorded each time you read a passage.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {summary.map((item) => (
+                <div key={item.label} className="p-4 rounded-xl bg-white dark:bg-zinc-800 border border-zinc-200 dark:border-zinc-700 shadow-sm">
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">{item.label}</p>
+                  <p className="text-lg font-bold text-zinc-900 dark:text-zinc-50">{item.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <section className="p-6 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 shadow-md space-y-3">
+              <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-50">Speed over time</h2>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">Line: average WPM per session. Dots: peak speed setting.</p>
+              <WpmChart sessions={recentSessions} />
+            </section>
+
+            <section className="p-6 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 shadow-md space-y-3">
+              <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-50">Comprehension vs speed</h2>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">Line: average quiz score at each speed. Dots: individual quizzes.</p>
+              <ComprehensionChart results={quizResults} />
+            </section>
+
+            <section className="p-6 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 shadow-md space-y-3">
+              <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-50">Words read per day (last 30 days)</h2>
+              <DailyWordsChart days={getDailyWords(sessions, 30, now)} />
+            </section>
+
+            <section className="p-6 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 shadow-md space-y-3">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-50">Recent sessions</h2>
+                <button
+                  onClick={() => {
+                    if (window.confirm('Delete your whole reading history?')) {
+                      clearSessions();
+                      clearQuizResults();
+                    }
+                  }}
+                  className="text-xs text-zinc-500 dark:text-zinc-400 hover:text-red-600 dark:hover:text-red-400 cursor-pointer"
+                >
+                  Clear history
+                </button>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-zinc-500 dark:text-zinc-400">
+                    <tr>
+                      <th className="py-2 pr-4 font-medium">Started</th>
+                      <th className="py-2 pr-4 font-medium">Words</th>
+                      <th className="py-2 pr-4 font-medium">Avg WPM</th>
+                      <th className="py-2 pr-4 font-medium">Peak WPM</th>
+                      <th className="py-2 pr-4 font-medium">Pauses</th>
+                      <th className="py-2 font-medium">Rewinds</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-zinc-700 dark:text-zinc-300">
+                    {recentSessions.slice().reverse().slice(0, 15).map((session) => (
+                      <tr key={session.id} className="border-t border-zinc-100 dark:border-zinc-700">
+                        <td className="py-2 pr-4 whitespace-nowrap">{new Date(session.startedAt).toLocaleString()}</td>
+                        <td className="py-2 pr-4">{session.wordsRead.toLocaleString()}</td>
+                        <td className="py-2 pr-4">{session.averageWpm}</td>
+                        <td className="py-2 pr-4">{session.peakWpm}</td>
+                        <td className="py-2 pr-4">{session.pauses}</td>
+                        <td className="py-2">{session.rewinds}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
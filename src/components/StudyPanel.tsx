@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { deletePassage, getDuePassages, HARD_REASONS, REVIEW_SESSION_SIZE, type HardPassage } from '@/lib/study';
+
+interface StudyPanelProps {
+  passages: HardPassage[];
+  onReview: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When a passage is next up, relative to today
+function formatDue(due: number, now: number): string {
+  const days = Math.ceil((due - now) / DAY_MS);
+  if (days <= 0) return 'due now';
+  if (days === 1) return 'due tomorrow';
+  return `due in ${days} days`;
+}
+
+// Sentences marked as hard in study mode, with a button to re-read the ones that are due
+export default function StudyPanel({ passages, onReview }: StudyPanelProps) {
+  const [now] = useState(() => Date.now());
+  const dueCount = Math.min(getDuePassages(passages, now).length, REVIEW_SESSION_SIZE);
+  const byDue = [...passages].sort((a, b) => a.due - b.due);
+
+  return (
+    <div className="p-6 rounded-2xl bg-white dark:bg-zinc-800 border-2 border-zinc-200 dark:border-zinc-700 shadow-md space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-bold text-zinc-900 dark:text-zinc-50 flex items-center gap-2">
+          <span className="text-lg">🎓</span>
+          Study
+          <span className="font-normal text-xs text-zinc-500 dark:text-zinc-400">
+            {passages.length === 1 ? '1 hard passage' : `${passages.length} hard passages`}
+          </span>
+        </h2>
+        <button
+          onClick={onReview}
+          disabled={dueCount === 0}
+          className="px-3 py-1.5 rounded-lg bg-gradient-to-r from-blue-600 to-blue-700 text-white text-xs font-semibold hover:from-blue-700 hover:to-blue-800 disabled:from-zinc-400 disabled:to-zinc-500 disabled:cursor-not-allowed transition-colors cursor-pointer whitespace-nowrap"
+        >
+          {dueCount > 0 ? `▶ Re-read ${dueCount} due` : 'Nothing due today'}
+        </button>
+      </div>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {byDue.map((passage) => (
+          <li key={passage.id} className="flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-zinc-50 dark:hover:bg-zinc-900/50">
+            <div className="flex-1 min-w-0">
+              <p dir="auto" className="text-sm text-zinc-800 dark:text-zinc-200 truncate">{passage.text}</p>
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                {formatDue(passage.due, now)} • you {passage.reasons.map((reason) => HARD_REASONS[reason]).join(', ')}
+              </p>
+            </div>
+            <button
+              onClick={() => deletePassage(passage.id)}
+              title="Stop reviewing this passage"
+              aria-label="Stop reviewing this passage"
+              className="px-2 py-1 text-xs text-zinc-400 hover:text-red-600 cursor-pointer"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
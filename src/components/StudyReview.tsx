@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { reviewPassage, type HardPassage } from '@/lib/study';
+
+interface StudyReviewProps {
+  passages: HardPassage[]; // the passages just re-read
+  onClose: () => void;
+}
+
+// After a re-read session: how each passage went, which sets when it comes back
+export default function StudyReview({ passages, onClose }: StudyReviewProps) {
+  const [rated, setRated] = useState<string[]>([]);
+  const remaining = passages.filter((passage) => !rated.includes(passage.id));
+
+  const rate = (passage: HardPassage, stillHard: boolean) => {
+    reviewPassage(passage.id, stillHard);
+    setRated([...rated, passage.id]);
+  };
+
+  return (
+    <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl bg-white dark:bg-zinc-800 shadow-2xl border border-zinc-200 dark:border-zinc-700 p-6 space-y-4">
+      <div className="flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
+        <span>{remaining.length > 0 ? `How did these go? ${remaining.length} left` : 'All done'}</span>
+        <button onClick={onClose} className="hover:text-zinc-900 dark:hover:text-zinc-100 cursor-pointer">
+          {remaining.length > 0 ? 'Later' : 'Close'}
+        </button>
+      </div>
+
+      {remaining.length === 0 ? (
+        <p className="text-sm text-zinc-600 dark:text-zinc-400 py-4 text-center">
+          Passages that were clear come back less often; the hard ones come back tomorrow.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {remaining.map((passage) => (
+            <li key={passage.id} className="space-y-2 p-3 rounded-lg bg-zinc-100 dark:bg-zinc-900">
+              <p dir="auto" className="text-sm leading-relaxed text-zinc-800 dark:text-zinc-200">{passage.text}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => rate(passage, false)}
+                  className="px-3 py-1 rounded bg-green-600 text-white text-xs font-semibold hover:bg-green-700 cursor-pointer"
+                >
+                  ✓ Clear now
+                </button>
+                <button
+                  onClick={() => rate(passage, true)}
+                  className="px-3 py-1 rounded bg-zinc-200 dark:bg-zinc-700 text-zinc-700 dark:text-zinc-300 text-xs font-semibold hover:bg-zinc-300 dark:hover:bg-zinc-600 cursor-pointer"
+                >
+                  Still hard
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { ReadingSession } from '@/lib/stats';
+
+interface WpmChartProps {
+  sessions: ReadingSession[]; // oldest first
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = 32;
+
+// Average WPM per session as a line, with each session's peak speed setting as a dot above it
+export default function WpmChart({ sessions }: WpmChartProps) {
+  if (sessions.length < 2) {
+    return <p className="text-sm text-zinc-500 dark:text-zinc-400">Read a couple more sessions to see your speed trend.</p>;
+  }
+
+  const maxWpm = Math.max(...sessions.map((session) => Math.max(session.averageWpm, session.peakWpm)));
+  const top = Math.ceil(maxWpm / 100) * 100;
+  const x = (i: number) => PADDING + (i / (sessions.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (wpm: number) => HEIGHT - PADDING - (wpm / top) * (HEIGHT - PADDING * 2);
+  const points = sessions.map((session, i) => `${x(i)},${y(session.averageWpm)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Average words per minute for each session">
+      {[0, 0.5, 1].map((fraction) => (
+        <g key={fraction}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={y(top * fraction)} y2={y(top * fraction)} className="stroke-zinc-200 dark:stroke-zinc-700" />
+          <text x={PADDING - 6} y={y(top * fraction) + 4} textAnchor="end" className="fill-zinc-500 text-[10px]">
+            {Math.round(top * fraction)}
+          </text>
+        </g>
+      ))}
+      {sessions.map((session, i) => (
+        <circle key={`peak-${session.id}`} cx={x(i)} cy={y(session.peakWpm)} r={2.5} className="fill-purple-400/60" />
+      ))}
+      <polyline points={points} fill="none" strokeWidth={2.5} strokeLinejoin="round" className="stroke-blue-600 dark:stroke-blue-400" />
+      {sessions.map((session, i) => (
+        <circle key={session.id} cx={x(i)} cy={y(session.averageWpm)} r={3.5} className="fill-blue-600 dark:fill-blue-400">
+          <title>{`${new Date(session.startedAt).toLocaleDateString()}: ${session.averageWpm} WPM average, ${session.peakWpm} WPM peak`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,19 @@
+// Bookmarklet that opens the reader over whatever page it's clicked on, by loading
+// public/overlay.js from `origin`. Pages whose security policy refuses the script get the
+// reader in a new tab instead, through its share target: the selected text if there is any,
+// otherwise the page's address to import the article from.
+export function getBookmarklet(origin: string): string {
+  const script = `(() => {
+    const s = document.createElement('script');
+    s.src = ${JSON.stringify(`${origin}/overlay.js`)};
+    s.onload = () => s.remove();
+    s.onerror = () => {
+      s.remove();
+      const text = String(getSelection()).trim();
+      const params = new URLSearchParams(text ? { title: document.title, text } : { url: location.href });
+      open(${JSON.stringify(`${origin}/?`)} + params);
+    };
+    document.documentElement.append(s);
+  })()`;
+  return `javascript:${encodeURIComponent(script.replace(/\s*\n\s*/g, ' '))}`;
+}
@@ -0,0 +1,74 @@
+import { type ReaderDocument } from '@/lib/document';
+import { getTokenDelay, type TimingProfile } from '@/lib/timing';
+
+// A run of tokens shown on screen together (token indices, inclusive)
+export interface Chunk {
+  start: number;
+  end: number;
+}
+
+// Limits for how many tokens go into one chunk; whichever is reached first ends the chunk
+export interface ChunkLimits {
+  maxWords: number;
+  maxChars: number; // including the spaces between words
+}
+
+export type ChunkPresetId = 'single' | 'words2' | 'words3' | 'width12' | 'width18';
+
+export const CHUNK_PRESETS: Record<ChunkPresetId, { label: string; limits: ChunkLimits }> = {
+  single: { label: 'One word', limits: { maxWords: 1, maxChars: Infinity } },
+  words2: { label: 'Up to 2 words', limits: { maxWords: 2, maxChars: Infinity } },
+  words3: { label: 'Up to 3 words', limits: { maxWords: 3, maxChars: Infinity } },
+  width12: { label: 'Up to 12 characters', limits: { maxWords: Infinity, maxChars: 12 } },
+  width18: { label: 'Up to 18 characters', limits: { maxWords: Infinity, maxChars: 18 } },
+};
+
+export const DEFAULT_CHUNK_PRESET: ChunkPresetId = 'single';
+
+// Group tokens into chunks. A chunk never spans a sentence or paragraph boundary, it ends
+// at clause punctuation (, ; :), and a word longer than the width limit gets a chunk to itself.
+export function buildChunks(doc: ReaderDocument, limits: ChunkLimits): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: Chunk | null = null;
+  let chars = 0;
+
+  for (const token of doc.tokens) {
+    const fits = current !== null
+      && doc.tokens[current.start].sentence === token.sentence
+      && !/[,;:]$/.test(doc.tokens[current.end].text)
+      && token.index - current.start < limits.maxWords
+      && chars + 1 + token.text.length <= limits.maxChars;
+
+    if (current && fits) {
+      current.end = token.index;
+      chars += 1 + token.text.length;
+    } else {
+      current = { start: token.index, end: token.index };
+      chars = token.text.length;
+      chunks.push(current);
+    }
+  }
+  return chunks;
+}
+
+// Find the chunk containing token `index` (binary search over chunks in order)
+export function findChunk(chunks: Chunk[], index: number): Chunk | undefined {
+  let low = 0;
+  let high = chunks.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (chunks[mid].end < index) low = mid + 1;
+    else if (chunks[mid].start > index) high = mid - 1;
+    else return chunks[mid];
+  }
+  return undefined;
+}
+
+// A chunk stays up as long as its words would have individually, so WPM holds in any mode
+export function getChunkDelay(doc: ReaderDocument, chunk: Chunk, wpm: number, profile: TimingProfile): number {
+  let totalMs = 0;
+  for (let i = chunk.start; i <= chunk.end; i++) {
+    totalMs += getTokenDelay(doc, i, wpm, profile);
+  }
+  return totalMs;
+}
@@ -0,0 +1,159 @@
+import { createLocalStore } from '@/lib/storage';
+
+// Reader actions that can be triggered from the keyboard or a gamepad, and the user's bindings for them
+
+export type CommandId =
+  | 'togglePlay'
+  | 'speedUp'
+  | 'speedDown'
+  | 'previousWord'
+  | 'nextWord'
+  | 'previousSentence'
+  | 'nextSentence'
+  | 'previousParagraph'
+  | 'nextParagraph'
+  | 'bookmark'
+  | 'highlight'
+  | 'addNote'
+  | 'showHelp';
+
+// Keys are written as combos such as "Space", "Shift+ArrowLeft" or "?" (see getKeyCombo).
+// Gamepad buttons are indexes in the browser's standard layout.
+export const COMMANDS: Record<CommandId, { label: string; keys: string[]; buttons: number[] }> = {
+  togglePlay: { label: 'Play / pause', keys: ['Space'], buttons: [0] },
+  speedUp: { label: 'Speed up', keys: ['ArrowRight'], buttons: [12] },
+  speedDown: { label: 'Slow down', keys: ['ArrowLeft'], buttons: [13] },
+  previousWord: { label: 'Back a word', keys: [','], buttons: [] },
+  nextWord: { label: 'Forward a word', keys: ['.'], buttons: [] },
+  previousSentence: { label: 'Rewind sentence', keys: ['Shift+ArrowLeft'], buttons: [1, 14] },
+  nextSentence: { label: 'Next sentence', keys: ['Shift+ArrowRight'], buttons: [2, 15] },
+  previousParagraph: { label: 'Previous paragraph', keys: ['ArrowUp'], buttons: [4] },
+  nextParagraph: { label: 'Next paragraph', keys: ['ArrowDown'], buttons: [5] },
+  bookmark: { label: 'Bookmark word', keys: ['b'], buttons: [3] },
+  highlight: { label: 'Highlight sentence', keys: ['h'], buttons: [] },
+  addNote: { label: 'Bookmark with a note', keys: ['n'], buttons: [] },
+  showHelp: { label: 'Show shortcuts', keys: ['?'], buttons: [] },
+};
+
+export const COMMAND_IDS = Object.keys(COMMANDS) as CommandId[];
+
+export interface InputBindings {
+  keys: Record<CommandId, string[]>;
+  buttons: Record<CommandId, number[]>;
+}
+
+// Names for the buttons of a controller with the standard layout; pedals and other
+// devices number their buttons from 0 the same way
+const BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'Left stick', 'Right stick',
+  'D-pad ↑', 'D-pad ↓', 'D-pad ←', 'D-pad →', 'Home',
+];
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Meta: '⌘',
+};
+
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock']);
+
+const BINDINGS_KEY = 'zoomerdigest:bindings';
+
+const DEFAULT_BINDINGS: InputBindings = {
+  keys: Object.fromEntries(COMMAND_IDS.map((id) => [id, COMMANDS[id].keys])) as Record<CommandId, string[]>,
+  buttons: Object.fromEntries(COMMAND_IDS.map((id) => [id, COMMANDS[id].buttons])) as Record<CommandId, number[]>,
+};
+
+// The combo for a key press, or null for a bare modifier. Shift is only kept for letters and
+// named keys, since for symbols it's already part of the key ("?" rather than "Shift+/").
+export function getKeyCombo(e: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const isCharacter = e.key.length === 1;
+  const key = e.key === ' ' ? 'Space' : isCharacter ? e.key.toLowerCase() : e.key;
+  const keepShift = !isCharacter || key !== key.toUpperCase();
+  return [
+    e.ctrlKey && 'Ctrl',
+    e.altKey && 'Alt',
+    e.metaKey && 'Meta',
+    e.shiftKey && keepShift && 'Shift',
+    key,
+  ].filter(Boolean).join('+');
+}
+
+// A combo as shown to the user, e.g. "Shift+ArrowLeft" as "Shift ←"
+export function formatKeyCombo(combo: string): string {
+  return combo
+    .split('+')
+    .map((part) => KEY_SYMBOLS[part] ?? (part.length === 1 ? part.toUpperCase() : part))
+    .join(' ');
+}
+
+export function formatButton(button: number): string {
+  return BUTTON_NAMES[button] ?? `Button ${button + 1}`;
+}
+
+export function findKeyCommand(bindings: InputBindings, combo: string): CommandId | null {
+  return COMMAND_IDS.find((id) => bindings.keys[id].includes(combo)) ?? null;
+}
+
+export function findButtonCommand(bindings: InputBindings, button: number): CommandId | null {
+  return COMMAND_IDS.find((id) => bindings.buttons[id].includes(button)) ?? null;
+}
+
+// Keys typed into a text field or picked in a menu belong to that control, not the reader
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return target.type !== 'range';
+  return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || target.isContentEditable;
+}
+
+// Bindings saved before a command existed get that command's defaults
+function normalizeBindings(saved: Partial<InputBindings>): InputBindings {
+  const keys = { ...DEFAULT_BINDINGS.keys };
+  const buttons = { ...DEFAULT_BINDINGS.buttons };
+  for (const id of COMMAND_IDS) {
+    const savedKeys = saved.keys?.[id];
+    const savedButtons = saved.buttons?.[id];
+    if (Array.isArray(savedKeys) && savedKeys.every((key) => typeof key === 'string')) keys[id] = savedKeys;
+    if (Array.isArray(savedButtons) && savedButtons.every(Number.isInteger)) buttons[id] = savedButtons;
+  }
+  return { keys, buttons };
+}
+
+const bindingStore = createLocalStore(BINDINGS_KEY, DEFAULT_BINDINGS, (saved) => normalizeBindings(saved as Partial<InputBindings>));
+
+// Saved bindings, for useSyncExternalStore; they change in this tab or another one
+export const loadBindings = bindingStore.load;
+export const getServerBindings = bindingStore.getServer;
+export const subscribeToBindings = bindingStore.subscribe;
+export const resetBindings = bindingStore.clear;
+
+// Bind a key combo to `command`, taking it away from any command that had it
+export function bindKey(command: CommandId, combo: string): void {
+  const { keys, buttons } = loadBindings();
+  const updated = Object.fromEntries(
+    COMMAND_IDS.map((id) => [id, [...keys[id].filter((key) => key !== combo), ...(id === command ? [combo] : [])]]),
+  ) as Record<CommandId, string[]>;
+  bindingStore.save({ keys: updated, buttons });
+}
+
+export function unbindKey(command: CommandId, combo: string): void {
+  const { keys, buttons } = loadBindings();
+  bindingStore.save({ keys: { ...keys, [command]: keys[command].filter((key) => key !== combo) }, buttons });
+}
+
+// Bind a gamepad button to `command`, taking it away from any command that had it
+export function bindButton(command: CommandId, button: number): void {
+  const { keys, buttons } = loadBindings();
+  const updated = Object.fromEntries(
+    COMMAND_IDS.map((id) => [id, [...buttons[id].filter((other) => other !== button), ...(id === command ? [button] : [])]]),
+  ) as Record<CommandId, number[]>;
+  bindingStore.save({ keys, buttons: updated });
+}
+
+export function unbindButton(command: CommandId, button: number): void {
+  const { keys, buttons } = loadBindings();
+  bindingStore.save({ keys, buttons: { ...buttons, [command]: buttons[command].filter((other) => other !== button) } });
+}
@@ -0,0 +1,104 @@
+import { segmentWords } from '@/lib/script';
+
+// A single word as it appears in the source text
+export interface Token {
+  text: string;
+  index: number; // position in the document's token list
+  paragraph: number; // index of the paragraph containing this token
+  sentence: number; // index of the sentence containing this token (counted across the whole document)
+  start: number; // character offset of the first character in the source text
+  end: number; // character offset just past the last character in the source text
+}
+
+// Parsed text with its paragraph and sentence structure
+export interface ReaderDocument {
+  text: string;
+  tokens: Token[];
+  sentenceStarts: number[]; // token index where each sentence begins
+  paragraphStarts: number[]; // token index where each paragraph begins
+}
+
+export const EMPTY_DOCUMENT: ReaderDocument = {
+  text: '',
+  tokens: [],
+  sentenceStarts: [],
+  paragraphStarts: [],
+};
+
+// Abbreviations whose trailing period doesn't end a sentence
+const ABBREVIATIONS = new Set([
+  'mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'sr.', 'jr.', 'st.', 'vs.', 'e.g.', 'i.e.', 'cf.', 'approx.', 'no.', 'fig.',
+]);
+
+// Words run up to whitespace; em dashes break words apart but stay attached to the word before them.
+// Hyphens and en dashes are kept, so "well-known" and "1990–2000" are single tokens.
+// Runs in scripts written without spaces are split further by segmentWords.
+const TOKEN_PATTERN = /[^\s—]+—*/g;
+
+// A blank line (possibly containing spaces) separates paragraphs
+const PARAGRAPH_BREAK = /\n[^\S\n]*\n/;
+
+// Check if word ends a sentence (allowing closing quotes or brackets after the punctuation).
+// Covers CJK full stops, the Arabic question mark and the Devanagari danda as well as . ! ?
+export function endsSentence(word: string): boolean {
+  if (ABBREVIATIONS.has(word.toLowerCase())) return false;
+  return /[.!?。！？؟।]['"”’)\]」』）»]*$/.test(word);
+}
+
+// Parse text into tokens, recording paragraph, sentence and source offsets for each
+export function parseText(text: string): ReaderDocument {
+  const tokens: Token[] = [];
+  const sentenceStarts: number[] = [];
+  const paragraphStarts: number[] = [];
+  let paragraph = -1;
+  let sentence = -1;
+  let previousEnd = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    // Skip stray dashes used as punctuation between words
+    if (/^[-–]+$/.test(match[0])) continue;
+
+    for (const [segmentStart, segmentEnd] of segmentWords(match[0])) {
+      const word = match[0].slice(segmentStart, segmentEnd);
+      const start = match.index + segmentStart;
+      const previous = tokens[tokens.length - 1];
+      const startsParagraph = !previous || PARAGRAPH_BREAK.test(text.slice(previousEnd, start));
+      const startsSentence = startsParagraph || endsSentence(previous.text);
+
+      if (startsParagraph) {
+        paragraph++;
+        paragraphStarts.push(tokens.length);
+      }
+      if (startsSentence) {
+        sentence++;
+        sentenceStarts.push(tokens.length);
+      }
+
+      tokens.push({
+        text: word,
+        index: tokens.length,
+        paragraph,
+        sentence,
+        start,
+        end: start + word.length,
+      });
+      previousEnd = start + word.length;
+    }
+  }
+
+  return { text, tokens, sentenceStarts, paragraphStarts };
+}
+
+// Check if the token at `index` is the last one in its paragraph
+export function isParagraphEnd(doc: ReaderDocument, index: number): boolean {
+  const next = doc.tokens[index + 1];
+  return next !== undefined && next.paragraph !== doc.tokens[index].paragraph;
+}
+
+// Original source text spanning tokens `from` to `to` (inclusive), with its spacing intact
+export function getSourceText(doc: ReaderDocument, from: number, to: number): string {
+  const first = doc.tokens[Math.max(0, from)];
+  const last = doc.tokens[Math.min(doc.tokens.length - 1, to)];
+  if (!first || !last || last.index < first.index) return '';
+  return doc.text.slice(first.start, last.end);
+}
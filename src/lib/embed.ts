@@ -0,0 +1,107 @@
+import type { ReaderState } from '@/lib/reader/engine';
+
+// Messages between the embedded reader (the /embed page, usually in an iframe) and the page
+// hosting it. public/embed.js wraps this in a <zoomer-reader> element; pages can also post
+// the commands themselves. Every message carries `source` so other traffic is ignored.
+//   host → reader:  { source: 'zoomer-reader', type: 'play' }
+//   reader → host:  { source: 'zoomer-reader', type: 'progress', index: 12, total: 340, wpm: 300, playing: true }
+
+export const EMBED_SOURCE = 'zoomer-reader';
+
+// Colours and font of the embedded reader. The host sets them as CSS custom properties
+// (--zoomer-background and so on) on the <zoomer-reader> element, which forwards them.
+export type EmbedThemeKey = 'background' | 'text' | 'focal' | 'accent' | 'font';
+export type EmbedTheme = Record<EmbedThemeKey, string>;
+
+export const DEFAULT_EMBED_THEME: EmbedTheme = {
+  background: '#ffffff',
+  text: '#18181b',
+  focal: '#dc2626',
+  accent: '#2563eb', // buttons and the progress bar
+  font: 'var(--font-geist-mono)',
+};
+
+export type EmbedCommand =
+  | { type: 'load'; text: string; index: number; wpm: number | null }
+  | { type: 'loadPage'; html: string; url: string } // read the main article of a web page
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'seek'; index: number }
+  | { type: 'speed'; wpm: number }
+  | { type: 'theme'; theme: Partial<EmbedTheme> };
+
+// 'close' asks the host to take the reader away (the user pressed Escape)
+export type EmbedEventType = 'ready' | 'progress' | 'play' | 'pause' | 'end' | 'close';
+
+export interface EmbedEvent {
+  source: typeof EMBED_SOURCE;
+  type: EmbedEventType;
+  index: number; // current token
+  total: number; // tokens in the text
+  wpm: number;
+  playing: boolean;
+}
+
+// CSS custom property a theme value is set as
+export function getThemeProperty(key: EmbedThemeKey): string {
+  return `--zoomer-${key}`;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Theme values from a message, dropping unknown keys and anything that isn't a short string.
+// Values end up in a style attribute, so characters that could end the declaration are refused.
+function parseTheme(value: unknown): Partial<EmbedTheme> {
+  if (typeof value !== 'object' || value === null) return {};
+  const theme: Partial<EmbedTheme> = {};
+  for (const key of Object.keys(DEFAULT_EMBED_THEME) as EmbedThemeKey[]) {
+    const entry = (value as Record<string, unknown>)[key];
+    if (typeof entry === 'string' && entry.length <= 200 && !/[;{}]/.test(entry)) theme[key] = entry.trim();
+  }
+  return theme;
+}
+
+// The command in a posted message, or null for anything else
+export function parseEmbedCommand(data: unknown): EmbedCommand | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const message = data as Record<string, unknown>;
+  if (message.source !== EMBED_SOURCE) return null;
+  switch (message.type) {
+    case 'load':
+      if (typeof message.text !== 'string') return null;
+      return {
+        type: 'load',
+        text: message.text,
+        index: isFiniteNumber(message.index) ? Math.max(0, Math.floor(message.index)) : 0,
+        wpm: isFiniteNumber(message.wpm) ? message.wpm : null,
+      };
+    case 'loadPage':
+      if (typeof message.html !== 'string' || typeof message.url !== 'string' || !URL.canParse(message.url)) return null;
+      return { type: 'loadPage', html: message.html, url: message.url };
+    case 'play':
+    case 'pause':
+      return { type: message.type };
+    case 'seek':
+      return isFiniteNumber(message.index) ? { type: 'seek', index: Math.floor(message.index) } : null;
+    case 'speed':
+      return isFiniteNumber(message.wpm) ? { type: 'speed', wpm: message.wpm } : null;
+    case 'theme':
+      return { type: 'theme', theme: parseTheme(message.theme) };
+    default:
+      return null;
+  }
+}
+
+// Event to post to the host for the reader's state
+export function toEmbedEvent(type: EmbedEventType, state: ReaderState): EmbedEvent {
+  return {
+    source: EMBED_SOURCE,
+    type,
+    index: state.index,
+    total: state.doc.tokens.length,
+    wpm: state.wpm,
+    playing: state.playing,
+  };
+}
@@ -0,0 +1,102 @@
+import { ExportError, type ExportFrame, type ExportTheme } from '@/lib/export/common';
+
+// Word size as a fraction of the frame height, and the gap between the focal letter and the
+// text either side of it as a fraction of the word size
+const FONT_SCALE = 0.14;
+const SIDE_GAP = 0.04;
+
+// Draws frames that look like the reader's anchored display: the focal letter pinned to the
+// centre between guide lines, with the rest of the word dimmed either side of it
+export class FrameRenderer {
+  readonly ctx: CanvasRenderingContext2D;
+  private readonly fontSize: number;
+  readonly band: { top: number; height: number }; // rows that change from one frame to the next
+
+  private constructor(
+    readonly canvas: HTMLCanvasElement,
+    private readonly theme: ExportTheme,
+    private readonly family: string,
+  ) {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new ExportError('This browser can\'t draw the frames.');
+    this.ctx = ctx;
+    this.fontSize = Math.round(canvas.height * FONT_SCALE);
+    const top = Math.floor(canvas.height / 2 - this.fontSize * 1.15);
+    this.band = { top, height: canvas.height - 2 * top };
+  }
+
+  // Size the canvas and load the theme's font, which may not have been used on the page yet
+  static async create(canvas: HTMLCanvasElement, width: number, height: number, theme: ExportTheme): Promise<FrameRenderer> {
+    canvas.width = width;
+    canvas.height = height;
+    const family = getComputedStyle(document.body).getPropertyValue(theme.font).trim() || 'monospace';
+    await document.fonts.load(`bold ${Math.round(height * FONT_SCALE)}px ${family}`);
+    return new FrameRenderer(canvas, theme, family);
+  }
+
+  // Draw a chunk, or just the background and guide lines for `null`
+  draw(frame: ExportFrame | null): void {
+    const { ctx, canvas, theme } = this;
+    const cx = canvas.width / 2;
+    const cy = canvas.height / 2;
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = theme.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    this.drawGuides(cx, cy);
+    if (!frame) return;
+
+    const { before, focal, after } = frame.parts;
+    ctx.textBaseline = 'middle';
+    ctx.direction = frame.rtl ? 'rtl' : 'ltr';
+    let size = this.fontSize;
+    this.setFont(size);
+    // Shrink words too long for the frame, keeping the focal letter on the centre line
+    const room = cx * 0.92 - ctx.measureText(focal).width / 2;
+    const widest = Math.max(ctx.measureText(before).width, ctx.measureText(after).width);
+    if (widest > room) {
+      size = Math.floor(size * (room / widest));
+      this.setFont(size);
+    }
+
+    const focalWidth = ctx.measureText(focal).width;
+    const gap = size * SIDE_GAP;
+    // Right-to-left words read from the focal letter leftwards, so the sides swap
+    const left = cx - focalWidth / 2 - gap;
+    const right = cx + focalWidth / 2 + gap;
+
+    ctx.fillStyle = theme.text;
+    ctx.globalAlpha = theme.dimmed ? 0.7 : 1;
+    ctx.textAlign = frame.rtl ? 'left' : 'right';
+    ctx.fillText(before, frame.rtl ? right : left, cy);
+    ctx.textAlign = frame.rtl ? 'right' : 'left';
+    ctx.fillText(after, frame.rtl ? left : right, cy);
+
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = theme.focal;
+    ctx.textAlign = 'center';
+    ctx.fillText(focal, cx, cy);
+  }
+
+  private setFont(size: number): void {
+    this.ctx.font = `bold ${size}px ${this.family}`;
+    this.ctx.letterSpacing = `${this.theme.letterSpacing * size}px`;
+  }
+
+  // Centre line through the word, and lines above and below it with ticks pointing at the focal letter
+  private drawGuides(cx: number, cy: number): void {
+    const { ctx, canvas, theme, fontSize } = this;
+    const lineWidth = Math.max(1, Math.round(canvas.height / 360));
+    const offset = fontSize * 1.1;
+    const tick = fontSize * 0.25;
+    ctx.fillStyle = theme.guide;
+
+    ctx.globalAlpha = 0.2;
+    ctx.fillRect(cx - lineWidth, cy - fontSize * 0.7, lineWidth * 2, fontSize * 1.4);
+
+    ctx.globalAlpha = 0.3;
+    ctx.fillRect(0, cy - offset, canvas.width, lineWidth);
+    ctx.fillRect(0, cy + offset, canvas.width, lineWidth);
+    ctx.fillRect(cx - lineWidth / 2, cy - offset, lineWidth, tick);
+    ctx.fillRect(cx - lineWidth / 2, cy + offset - tick, lineWidth, tick);
+  }
+}
@@ -0,0 +1,132 @@
+import { buildChunks, getChunkDelay, type ChunkLimits } from '@/lib/chunking';
+import { getSourceText, type ReaderDocument } from '@/lib/document';
+import { getDisplayParts, type WordParts } from '@/lib/reader/focal';
+import { isRtl } from '@/lib/script';
+import type { TimingProfile } from '@/lib/timing';
+
+// Raised when a passage can't be exported, or the export was cancelled
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export type ExportFormat = 'webm' | 'gif';
+export type ResolutionId = 'hd' | 'sd' | 'small' | 'square';
+export type ExportThemeId = 'light' | 'dark' | 'highContrast' | 'dyslexia';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string }> = {
+  webm: { label: 'WebM video', extension: 'webm' },
+  gif: { label: 'Animated GIF', extension: 'gif' },
+};
+
+export const RESOLUTIONS: Record<ResolutionId, { label: string; width: number; height: number }> = {
+  hd: { label: '1280 × 720', width: 1280, height: 720 },
+  sd: { label: '854 × 480', width: 854, height: 480 },
+  small: { label: '640 × 360', width: 640, height: 360 },
+  square: { label: '720 × 720 (square)', width: 720, height: 720 },
+};
+
+// Colours for the rendered frames, matching the reader's themes. `font` is the CSS variable
+// next/font puts the font's family name in.
+export interface ExportTheme {
+  label: string;
+  background: string;
+  text: string;
+  dimmed: boolean; // before and after text at 70%, like the standard reader
+  focal: string;
+  guide: string; // guide lines, drawn at 30%
+  font: string;
+  letterSpacing: number; // em
+}
+
+export const EXPORT_THEMES: Record<ExportThemeId, ExportTheme> = {
+  light: {
+    label: 'Light',
+    background: '#ffffff',
+    text: '#18181b',
+    dimmed: true,
+    focal: '#dc2626',
+    guide: '#ef4444',
+    font: '--font-geist-mono',
+    letterSpacing: 0,
+  },
+  dark: {
+    label: 'Dark',
+    background: '#09090b',
+    text: '#fafafa',
+    dimmed: true,
+    focal: '#ef4444',
+    guide: '#f87171',
+    font: '--font-geist-mono',
+    letterSpacing: 0,
+  },
+  highContrast: {
+    label: 'High contrast',
+    background: '#000000',
+    text: '#ffffff',
+    dimmed: false,
+    focal: '#fde047',
+    guide: '#ffffff',
+    font: '--font-geist-mono',
+    letterSpacing: 0,
+  },
+  dyslexia: {
+    label: 'Dyslexia friendly',
+    background: '#fffbeb',
+    text: '#27272a',
+    dimmed: false,
+    focal: '#1d4ed8',
+    guide: '#1d4ed8',
+    font: '--font-lexend',
+    letterSpacing: 0.025,
+  },
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  resolution: ResolutionId;
+  theme: ExportThemeId;
+  wpm: number;
+  timingProfile: TimingProfile;
+  chunkLimits: ChunkLimits;
+}
+
+// One chunk of the passage: what's on screen and for how long
+export interface ExportFrame {
+  parts: WordParts;
+  rtl: boolean;
+  duration: number; // milliseconds
+}
+
+// Frames for tokens `start`–`end`, split and timed exactly as the reader would show them
+// (without the warm-up, which depends on where playback starts)
+export function buildFrames(
+  doc: ReaderDocument,
+  start: number,
+  end: number,
+  options: Pick<ExportOptions, 'wpm' | 'timingProfile' | 'chunkLimits'>,
+): ExportFrame[] {
+  return buildChunks(doc, options.chunkLimits)
+    .filter((chunk) => chunk.start >= start && chunk.end <= end)
+    .map((chunk) => {
+      const text = getSourceText(doc, chunk.start, chunk.end).replace(/\s+/g, ' ');
+      return {
+        parts: getDisplayParts(text),
+        rtl: isRtl(text),
+        duration: getChunkDelay(doc, chunk, options.wpm, options.timingProfile),
+      };
+    });
+}
+
+// Save a finished export
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight after the click can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
@@ -0,0 +1,235 @@
+import type { FrameRenderer } from '@/lib/export/canvas';
+import { ExportError, type ExportFrame, type ExportTheme } from '@/lib/export/common';
+
+// Shades blended between the background and each ink, enough for anti-aliased edges
+const BLEND_STEPS = 16;
+
+// GIF frame delays are in hundredths of a second, and browsers slow anything under 2 down
+const MIN_DELAY_CS = 2;
+
+// Largest code the LZW table can hold
+const MAX_CODE = 4095;
+
+type Rgb = [number, number, number];
+
+function parseHex(hex: string): Rgb {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// Every colour a frame can contain: the background, and each ink blended over it in steps.
+// Padded to a power of two, as GIF colour tables must be.
+function buildPalette(theme: ExportTheme): Rgb[] {
+  const background = parseHex(theme.background);
+  const palette: Rgb[] = [background];
+  for (const ink of [theme.text, theme.focal, theme.guide].map(parseHex)) {
+    for (let step = 1; step <= BLEND_STEPS; step++) {
+      const t = step / BLEND_STEPS;
+      palette.push(background.map((channel, i) => Math.round(channel + (ink[i] - channel) * t)) as Rgb);
+    }
+  }
+  let size = 2;
+  while (size < palette.length) size *= 2;
+  while (palette.length < size) palette.push(background);
+  return palette;
+}
+
+// Maps canvas pixels to the nearest palette colour, remembering each colour seen
+class Quantizer {
+  private readonly cache = new Map<number, number>();
+
+  constructor(private readonly palette: Rgb[]) {}
+
+  quantize(rgba: Uint8ClampedArray): Uint8Array {
+    const indices = new Uint8Array(rgba.length / 4);
+    for (let i = 0; i < indices.length; i++) {
+      const r = rgba[i * 4];
+      const g = rgba[i * 4 + 1];
+      const b = rgba[i * 4 + 2];
+      const key = (r << 16) | (g << 8) | b;
+      let index = this.cache.get(key);
+      if (index === undefined) {
+        index = this.nearest(r, g, b);
+        this.cache.set(key, index);
+      }
+      indices[i] = index;
+    }
+    return indices;
+  }
+
+  private nearest(r: number, g: number, b: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    this.palette.forEach(([pr, pg, pb], i) => {
+      const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+}
+
+// Growable byte buffer
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  word(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  string(value: string): void {
+    for (const char of value) this.byte(char.charCodeAt(0));
+  }
+
+  // Copy out the bytes written so far and start again
+  take(): Uint8Array<ArrayBuffer> {
+    const bytes = this.bytes.slice(0, this.length);
+    this.length = 0;
+    return bytes;
+  }
+}
+
+// LZW-compress palette indices into GIF image data: the minimum code size, then the codes
+// packed least significant bit first, in blocks of up to 255 bytes
+function writeImageData(out: ByteWriter, indices: Uint8Array, minCodeSize: number): void {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const packed = new ByteWriter();
+  let bits = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  const table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      packed.byte(bits & 0xff);
+      bits >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode > MAX_CODE) {
+      // Table full: start a fresh one
+      emit(clearCode);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) packed.byte(bits & 0xff);
+
+  const data = packed.take();
+  out.byte(minCodeSize);
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    out.byte(block.length);
+    block.forEach((value) => out.byte(value));
+  }
+  out.byte(0);
+}
+
+// Render frames to an animated GIF that loops forever. Each chunk is one GIF frame with its
+// own delay; after the first, frames only cover the rows around the word, since nothing else
+// changes. Delays are rounded so the total time stays true to the reader's timing.
+export async function encodeGif(
+  renderer: FrameRenderer,
+  frames: ExportFrame[],
+  theme: ExportTheme,
+  leadMs: number,
+  { onProgress, signal }: { onProgress: (fraction: number) => void; signal: AbortSignal },
+): Promise<Blob> {
+  const { canvas, band, ctx } = renderer;
+  const palette = buildPalette(theme);
+  const quantizer = new Quantizer(palette);
+  const minCodeSize = Math.max(2, Math.log2(palette.length));
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const out = new ByteWriter();
+
+  out.string('GIF89a');
+  out.word(canvas.width);
+  out.word(canvas.height);
+  out.byte(0xf0 | (Math.log2(palette.length) - 1)); // global colour table, 8-bit colour resolution
+  out.byte(0); // background colour
+  out.byte(0); // no pixel aspect ratio
+  palette.forEach((colour) => colour.forEach((channel) => out.byte(channel)));
+  // Loop forever
+  out.byte(0x21);
+  out.byte(0xff);
+  out.byte(11);
+  out.string('NETSCAPE2.0');
+  out.byte(3);
+  out.byte(1);
+  out.word(0);
+  out.byte(0);
+
+  let targetMs = 0;
+  let writtenCs = 0;
+  const timeline = [{ frame: null, duration: leadMs }, ...frames.map((frame) => ({ frame, duration: frame.duration }))];
+  for (const [i, { frame, duration }] of timeline.entries()) {
+    if (signal.aborted) throw new ExportError('Export cancelled.');
+    renderer.draw(frame);
+    const isFirst = i === 0;
+    const top = isFirst ? 0 : band.top;
+    const height = isFirst ? canvas.height : band.height;
+    targetMs += duration;
+    const delay = Math.max(MIN_DELAY_CS, Math.round(targetMs / 10) - writtenCs);
+    writtenCs += delay;
+
+    // Graphic control extension: keep the previous frame under this one, and its delay
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0x04);
+    out.word(delay);
+    out.byte(0);
+    out.byte(0);
+    // Image descriptor, without a local colour table
+    out.byte(0x2c);
+    out.word(0);
+    out.word(top);
+    out.word(canvas.width);
+    out.word(height);
+    out.byte(0);
+    writeImageData(out, quantizer.quantize(ctx.getImageData(0, top, canvas.width, height).data), minCodeSize);
+    parts.push(out.take());
+
+    onProgress((i + 1) / timeline.length);
+    // Let the page repaint and the cancel button respond
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  out.byte(0x3b);
+  parts.push(out.take());
+  return new Blob(parts, { type: 'image/gif' });
+}
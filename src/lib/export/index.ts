@@ -0,0 +1,60 @@
+import { FrameRenderer } from '@/lib/export/canvas';
+import {
+  buildFrames,
+  downloadBlob,
+  EXPORT_FORMATS,
+  EXPORT_THEMES,
+  ExportError,
+  RESOLUTIONS,
+  type ExportFormat,
+  type ExportFrame,
+  type ExportOptions,
+  type ExportThemeId,
+  type ResolutionId,
+} from '@/lib/export/common';
+import { encodeGif } from '@/lib/export/gif';
+import { recordWebm } from '@/lib/export/webm';
+
+export {
+  buildFrames,
+  downloadBlob,
+  EXPORT_FORMATS,
+  EXPORT_THEMES,
+  ExportError,
+  RESOLUTIONS,
+  type ExportFormat,
+  type ExportFrame,
+  type ExportOptions,
+  type ExportThemeId,
+  type ResolutionId,
+};
+
+// Blank frame before the first word, so viewers have a moment to find the focal point
+const LEAD_MS = 1000;
+
+// Render frames to a video or GIF on `canvas`, which shows the export as it's made. Runs
+// entirely in the browser.
+export async function exportFrames(
+  canvas: HTMLCanvasElement,
+  frames: ExportFrame[],
+  options: ExportOptions,
+  progress: { onProgress: (fraction: number) => void; signal: AbortSignal },
+): Promise<Blob> {
+  if (frames.length === 0) throw new ExportError('There are no words to export.');
+  const { width, height } = RESOLUTIONS[options.resolution];
+  const theme = EXPORT_THEMES[options.theme];
+  const renderer = await FrameRenderer.create(canvas, width, height, theme);
+  return options.format === 'gif'
+    ? encodeGif(renderer, frames, theme, LEAD_MS, progress)
+    : recordWebm(renderer, frames, LEAD_MS, progress);
+}
+
+// Length of the export in milliseconds
+export function getExportDuration(frames: ExportFrame[]): number {
+  return LEAD_MS + frames.reduce((sum, frame) => sum + frame.duration, 0);
+}
+
+// File name for an export of the passage from `title`
+export function getExportFileName(title: string, format: ExportFormat): string {
+  return `${title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'passage'}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,62 @@
+import type { FrameRenderer } from '@/lib/export/canvas';
+import { ExportError, type ExportFrame } from '@/lib/export/common';
+
+const FRAME_RATE = 30;
+const BITS_PER_SECOND = 2_500_000;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+// Time the last frame stays up before the video ends
+const TAIL_MS = 1000;
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
+
+// Record the frames as a WebM video with MediaRecorder. The canvas is captured as it's drawn,
+// so this takes as long as the passage does to read.
+export async function recordWebm(
+  renderer: FrameRenderer,
+  frames: ExportFrame[],
+  leadMs: number,
+  { onProgress, signal }: { onProgress: (fraction: number) => void; signal: AbortSignal },
+): Promise<Blob> {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new ExportError('This browser can\'t record WebM video. Try exporting a GIF instead.');
+
+  renderer.draw(null);
+  const stream = renderer.canvas.captureStream(FRAME_RATE);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: BITS_PER_SECOND });
+  const recorded: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) recorded.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+  const stop = async () => {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach((track) => track.stop());
+  };
+
+  const totalMs = leadMs + frames.reduce((sum, frame) => sum + frame.duration, 0) + TAIL_MS;
+  recorder.start(1000);
+  const startedAt = performance.now();
+  // Each frame waits until its start time measured from the beginning, so timer delays don't add up
+  let elapsedMs = leadMs;
+  await wait(leadMs);
+  for (const frame of frames) {
+    if (signal.aborted) {
+      await stop();
+      throw new ExportError('Export cancelled.');
+    }
+    renderer.draw(frame);
+    elapsedMs += frame.duration;
+    onProgress(elapsedMs / totalMs);
+    await wait(startedAt + elapsedMs - performance.now());
+  }
+  await wait(TAIL_MS);
+  await stop();
+  onProgress(1);
+  return new Blob(recorded, { type: 'video/webm' });
+}
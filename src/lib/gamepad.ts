@@ -0,0 +1,39 @@
+// Gamepad input. The Gamepad API has no button events, so connected pads are polled once a
+// frame and `onPress` is called when a button goes down. Foot pedals and other switches that
+// present themselves as gamepads come through the same way.
+export function watchGamepadButtons(onPress: (button: number) => void): () => void {
+  if (typeof navigator === 'undefined' || !('getGamepads' in navigator)) return () => {};
+
+  const pressed = new Map<number, boolean[]>(); // gamepad index → button states at the last poll
+  let frame: number | null = null;
+
+  const poll = () => {
+    const gamepads = navigator.getGamepads().filter((gamepad): gamepad is Gamepad => gamepad !== null);
+    for (const gamepad of gamepads) {
+      const states = gamepad.buttons.map((button) => button.pressed);
+      const previous = pressed.get(gamepad.index);
+      // A pad seen for the first time only records its state, so a held button doesn't fire
+      if (previous) {
+        states.forEach((isPressed, button) => {
+          if (isPressed && !previous[button]) onPress(button);
+        });
+      }
+      pressed.set(gamepad.index, states);
+    }
+    frame = gamepads.length > 0 ? requestAnimationFrame(poll) : null;
+  };
+
+  const handleConnected = () => {
+    if (frame === null) frame = requestAnimationFrame(poll);
+  };
+  const handleDisconnected = (e: GamepadEvent) => pressed.delete(e.gamepad.index);
+
+  window.addEventListener('gamepadconnected', handleConnected);
+  window.addEventListener('gamepaddisconnected', handleDisconnected);
+  handleConnected(); // pads connected before we started listening
+  return () => {
+    window.removeEventListener('gamepadconnected', handleConnected);
+    window.removeEventListener('gamepaddisconnected', handleDisconnected);
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+}
@@ -0,0 +1,50 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractArticle } from '@/lib/import/article';
+import { ImportError } from '@/lib/import/common';
+import { parseHtml } from '@/lib/import/url';
+
+// Saved pages, parsed the way the import route parses them
+function loadFixture(name: string): Document {
+  const html = readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+  return parseHtml(html);
+}
+
+describe('extractArticle', () => {
+  it('reads a news story without the navigation, related links, comments or footer', () => {
+    const article = extractArticle(loadFixture('news.html'), 'https://ledger.example/news/cycling');
+    expect(article.title).toBe('City council approves new cycling lanes');
+    expect(article.byline).toBe('Maria Okafor');
+    expect(article.siteName).toBe('The Daily Ledger');
+    expect(article.text).toMatch(/^The city council voted on Tuesday evening/);
+    expect(article.text).toContain('this plan reflects what they told us');
+    for (const furniture of ['Opinion', 'cookies', 'Bus fares', 'waiting for this for years', 'All rights reserved']) {
+      expect(article.text).not.toContain(furniture);
+    }
+  });
+
+  it('reads a blog post without the sidebar, share buttons or comments', () => {
+    const article = extractArticle(loadFixture('blog.html'), 'https://notes.example/subvocalising');
+    expect(article.title).toBe('Why I stopped subvocalising');
+    expect(article.text).toMatch(/^For most of my life/);
+    expect(article.text).toContain('twice as fast as I did a year ago');
+    for (const furniture of ['Archive', 'About me', 'Subscribe', 'Share on social media', 'Great post', 'Powered by']) {
+      expect(article.text).not.toContain(furniture);
+    }
+  });
+
+  it('finds the page body among heavy navigation', () => {
+    const article = extractArticle(loadFixture('docs.html'), 'https://docs.example/timing');
+    expect(article.title).toBe('Configuring timing presets');
+    expect(article.text).toMatch(/^Each timing preset decides/);
+    expect(article.text.split('\n\n')).toHaveLength(4);
+    for (const furniture of ['Getting started', 'foot pedals', 'Search the docs', 'Previous: Library', 'Privacy']) {
+      expect(article.text).not.toContain(furniture);
+    }
+  });
+
+  it('refuses a page with no text', () => {
+    const doc = parseHtml('<html><body><nav><a href="/">Home</a></nav></body></html>');
+    expect(() => extractArticle(doc, 'https://empty.example/')).toThrow(ImportError);
+  });
+});
@@ -0,0 +1,200 @@
+import { ImportError, normalizeParagraphs, type ImportedText } from '@/lib/import/common';
+import { getParagraphs } from '@/lib/import/html';
+
+// Elements removed before scoring: page furniture that never holds the article
+const IGNORED_SELECTOR = 'script, style, noscript, template, svg, nav, header, footer, aside, form, iframe, button, dialog';
+
+// Class or id fragments that mark page furniture, and ones that mark the article body
+const UNLIKELY_PATTERN = /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|menu|modal|newsletter|outbrain|pager|popup|promo|related|remark|replies|share|shoutbox|sidebar|social|sponsor|subscribe|taboola|tool|widget/i;
+const LIKELY_PATTERN = /and|article|body|column|content|main|shadow|story|entry|post|text/i;
+const NEGATIVE_PATTERN = /hidden|^hid$|hid$|hid |^hid |banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+const POSITIVE_PATTERN = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+
+// Markers publishers use for subscriber-only content
+const PAYWALL_PATTERN = /paywall|subscriber-only|subscribers-only|premium-content|meteredContent|regwall/i;
+
+// Articles shorter than this are more likely a teaser, error page or cookie wall
+const MIN_ARTICLE_WORDS = 80;
+
+// Paragraph-level elements whose text is scored
+const SCORED_SELECTOR = 'p, pre, td, blockquote';
+
+// The main article of a web page
+export interface Article extends ImportedText {
+  byline: string | null;
+  siteName: string | null;
+}
+
+function getClassAndId(element: Element): string {
+  return `${element.getAttribute('class') ?? ''} ${element.getAttribute('id') ?? ''}`;
+}
+
+function getText(element: Element): string {
+  return (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function getMeta(doc: Document, ...names: string[]): string | null {
+  for (const name of names) {
+    const content = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content')?.trim();
+    if (content) return content;
+  }
+  return null;
+}
+
+// Share of an element's text that sits inside links; navigation blocks are mostly links
+function getLinkDensity(element: Element): number {
+  const length = getText(element).length;
+  if (length === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a')).reduce((total, link) => total + getText(link).length, 0);
+  return linkLength / length;
+}
+
+// Starting score for a candidate container from its tag and class names
+function getBaseScore(element: Element): number {
+  let score = 0;
+  switch (element.tagName.toLowerCase()) {
+    case 'article':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+    case 'main':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'li':
+      score -= 3;
+      break;
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      score -= 5;
+      break;
+  }
+  const classAndId = getClassAndId(element);
+  if (NEGATIVE_PATTERN.test(classAndId)) score -= 25;
+  if (POSITIVE_PATTERN.test(classAndId)) score += 25;
+  return score;
+}
+
+// Drop elements whose class or id says they're furniture, unless they also look like the article
+function removeUnlikelyCandidates(root: Element): void {
+  for (const element of Array.from(root.querySelectorAll('*'))) {
+    const classAndId = getClassAndId(element);
+    if (element.tagName.toLowerCase() === 'body' || element.tagName.toLowerCase() === 'article') continue;
+    if (UNLIKELY_PATTERN.test(classAndId) && !LIKELY_PATTERN.test(classAndId)) element.remove();
+  }
+}
+
+// Score each paragraph's ancestors by the amount of prose inside them and pick the best container
+// (after Arc90's Readability). Siblings that score nearly as well are kept, since some sites split
+// the article across several containers.
+function findArticleBlocks(body: Element): Element[] {
+  const scores = new Map<Element, number>();
+  const addScore = (element: Element | null, amount: number) => {
+    if (!element || element === body.parentElement) return;
+    scores.set(element, (scores.get(element) ?? getBaseScore(element)) + amount);
+  };
+
+  for (const paragraph of Array.from(body.querySelectorAll(SCORED_SELECTOR))) {
+    const text = getText(paragraph);
+    if (text.length < 25) continue;
+    // One point per paragraph, one per comma and one per 100 characters (up to 3)
+    const commas = text.split(/[,，、]/).length - 1;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parentElement;
+    addScore(parent, score);
+    addScore(parent?.parentElement ?? null, score / 2);
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - getLinkDensity(element));
+    scores.set(element, adjusted);
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  if (!best) return [body];
+
+  const threshold = Math.max(10, bestScore * 0.2);
+  const parent = best.parentElement;
+  if (!parent) return [best];
+  return Array.from(parent.children).filter((sibling) => {
+    if (sibling === best) return true;
+    if ((scores.get(sibling) ?? 0) >= threshold) return true;
+    // Loose paragraphs next to the article body often belong to it
+    const text = getText(sibling);
+    return sibling.tagName.toLowerCase() === 'p' && text.length > 80 && getLinkDensity(sibling) < 0.25;
+  });
+}
+
+// Page title without the " | Site Name" suffix most sites add
+function getTitle(doc: Document, siteName: string | null): string | null {
+  const headline = getMeta(doc, 'og:title', 'twitter:title');
+  if (headline) return headline;
+  const title = doc.querySelector('title')?.textContent?.trim();
+  const heading = doc.querySelector('h1')?.textContent?.trim();
+  if (!title) return heading || null;
+  if (heading && title.includes(heading)) return heading;
+  const parts = title.split(/\s+[|–—·-]\s+/);
+  if (parts.length > 1 && (siteName === null || parts[parts.length - 1] === siteName)) return parts.slice(0, -1).join(' - ');
+  return title;
+}
+
+function getByline(doc: Document): string | null {
+  const meta = getMeta(doc, 'author', 'article:author', 'parsely-author', 'sailthru.author');
+  // Some sites put a profile URL in article:author
+  if (meta && !/^https?:/.test(meta)) return meta;
+  const element = doc.querySelector('[rel="author"], [itemprop="author"], .byline, .author, [class*="byline"]');
+  const text = element ? getText(element) : '';
+  return text && text.length < 100 ? text.replace(/^by\s+/i, '') : null;
+}
+
+// Signs that the page withholds the article from non-subscribers
+function isPaywalled(doc: Document): boolean {
+  for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+    if (/"isAccessibleForFree"\s*:\s*"?false"?/i.test(script.textContent ?? '')) return true;
+  }
+  return Array.from(doc.querySelectorAll('[class], [id]')).some((element) => PAYWALL_PATTERN.test(getClassAndId(element)));
+}
+
+// Pull the main article out of a parsed web page. Throws ImportError when the page has no
+// article to speak of, with a paywall-specific message when the page says it's subscriber-only.
+export function extractArticle(doc: Document, url: string): Article {
+  const siteName = getMeta(doc, 'og:site_name', 'application-name');
+  const byline = getByline(doc);
+  const title = getTitle(doc, siteName) || new URL(url).hostname;
+  const paywalled = isPaywalled(doc);
+
+  const body = doc.body;
+  if (!body) throw new ImportError('That page has no content to read.');
+  body.querySelectorAll(IGNORED_SELECTOR).forEach((element) => element.remove());
+  removeUnlikelyCandidates(body);
+
+  const paragraphs = findArticleBlocks(body).flatMap((block) => getParagraphs(block));
+  // The headline is shown as the title, so drop it from the text if the container repeated it
+  if (paragraphs.length > 0 && paragraphs[0].replace(/\s+/g, ' ').trim() === title) paragraphs.shift();
+  const text = normalizeParagraphs(paragraphs);
+
+  if (text.split(/\s+/).length < MIN_ARTICLE_WORDS) {
+    if (paywalled) {
+      throw new ImportError('This article is behind a paywall. Copy the text from your browser while signed in and paste it instead.');
+    }
+    if (!text) throw new ImportError('No article text was found on that page.');
+  }
+  return { title, text, byline, siteName };
+}
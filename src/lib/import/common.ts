@@ -0,0 +1,21 @@
+// Plain text pulled out of an imported file, ready for parseText
+export interface ImportedText {
+  title: string;
+  text: string; // paragraphs separated by blank lines
+}
+
+// Raised when a file can't be read or has no readable text
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Join paragraphs with exactly one blank line between them, unwrapping any line breaks inside a paragraph
+export function normalizeParagraphs(paragraphs: string[]): string {
+  return paragraphs
+    .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .join('\n\n');
+}
@@ -0,0 +1,57 @@
+import { strFromU8, unzipSync, type Unzipped } from 'fflate';
+import { ImportError, normalizeParagraphs, type ImportedText } from '@/lib/import/common';
+import { getParagraphs } from '@/lib/import/html';
+
+function readEntry(files: Unzipped, path: string): string {
+  const entry = files[path];
+  if (!entry) throw new ImportError(`This EPUB is missing ${path}.`);
+  return strFromU8(entry);
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'application/xml');
+}
+
+// Resolve an href from the package file against the package file's folder
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+// Read an EPUB's chapters in spine (reading) order; each chapter's headings and paragraphs are kept
+export async function extractEpub(data: ArrayBuffer, fallbackTitle: string): Promise<ImportedText> {
+  let files: Unzipped;
+  try {
+    files = unzipSync(new Uint8Array(data));
+  } catch {
+    throw new ImportError('This EPUB file is damaged and could not be opened.');
+  }
+
+  const container = parseXml(readEntry(files, 'META-INF/container.xml'));
+  const packagePath = container.querySelector('rootfile')?.getAttribute('full-path');
+  if (!packagePath) throw new ImportError('This EPUB has no package file.');
+
+  const opf = parseXml(readEntry(files, packagePath));
+  const title = opf.getElementsByTagNameNS('*', 'title')[0]?.textContent?.trim() || fallbackTitle;
+
+  const manifest = new Map<string, string>();
+  opf.querySelectorAll('manifest > item').forEach((item) => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, resolvePath(packagePath, href));
+  });
+
+  const paragraphs: string[] = [];
+  opf.querySelectorAll('spine > itemref').forEach((itemref) => {
+    const path = manifest.get(itemref.getAttribute('idref') ?? '');
+    if (!path || !files[path]) return;
+    const chapter = new DOMParser().parseFromString(strFromU8(files[path]), 'text/html');
+    paragraphs.push(...getParagraphs(chapter.body));
+  });
+
+  return { title, text: normalizeParagraphs(paragraphs) };
+}
@@ -0,0 +1,33 @@
+import { normalizeParagraphs, type ImportedText } from '@/lib/import/common';
+
+// Elements that hold a paragraph's worth of readable text
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, dt, dd, figcaption, td, th, caption';
+
+// Elements that never contain the main text
+const IGNORED_SELECTOR = 'script, style, noscript, template, svg, nav, header, footer, aside, form, iframe, button';
+
+// Collect the text of each innermost block element, in document order
+export function getParagraphs(root: ParentNode): string[] {
+  root.querySelectorAll(IGNORED_SELECTOR).forEach((element) => element.remove());
+
+  const paragraphs = Array.from(root.querySelectorAll(BLOCK_SELECTOR))
+    .filter((element) => !element.querySelector(BLOCK_SELECTOR))
+    .map((element) => element.textContent ?? '');
+
+  // Pages that put their text straight into divs have no block elements to go on
+  if (paragraphs.every((paragraph) => !paragraph.trim())) {
+    return (root.textContent ?? '').split(/\n\s*\n/);
+  }
+  return paragraphs;
+}
+
+// Convert an HTML page to plain paragraphs, keeping headings as their own paragraphs
+export function extractHtml(html: string, fallbackTitle: string): ImportedText {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const title = doc.querySelector('title')?.textContent?.trim()
+    || doc.querySelector('h1')?.textContent?.trim()
+    || fallbackTitle;
+  // Prefer the main content area when the page marks one
+  const root = doc.querySelector('article') ?? doc.querySelector('main') ?? doc.body;
+  return { title, text: normalizeParagraphs(getParagraphs(root)) };
+}
@@ -0,0 +1,89 @@
+import type { Article } from '@/lib/import/article';
+import { ImportError, normalizeParagraphs, type ImportedText } from '@/lib/import/common';
+import { extractHtml } from '@/lib/import/html';
+import { extractMarkdown } from '@/lib/import/markdown';
+
+export { ImportError, type Article, type ImportedText };
+
+// Value for the `accept` attribute of the file picker
+export const ACCEPTED_FILE_TYPES = '.txt,.text,.md,.markdown,.html,.htm,.xhtml,.epub,.pdf';
+
+type FileKind = 'text' | 'markdown' | 'html' | 'epub' | 'pdf';
+
+function getFileKind(file: File): FileKind | null {
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+  if (extension === 'txt' || extension === 'text') return 'text';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'html' || extension === 'htm' || extension === 'xhtml') return 'html';
+  if (extension === 'epub' || file.type === 'application/epub+zip') return 'epub';
+  if (extension === 'pdf' || file.type === 'application/pdf') return 'pdf';
+  if (file.type === 'text/html') return 'html';
+  if (file.type === 'text/markdown') return 'markdown';
+  if (file.type.startsWith('text/')) return 'text';
+  return null;
+}
+
+// File name without its extension, used when the file has no title of its own
+function getFallbackTitle(file: File): string {
+  return file.name.replace(/\.[^.]+$/, '') || 'Untitled';
+}
+
+// Extract readable text from a file the user picked or dropped
+export async function importFile(file: File): Promise<ImportedText> {
+  const kind = getFileKind(file);
+  const fallbackTitle = getFallbackTitle(file);
+  let imported: ImportedText;
+
+  switch (kind) {
+    case 'text': {
+      const text = (await file.text()).replace(/\r\n?/g, '\n');
+      imported = { title: fallbackTitle, text: normalizeParagraphs(text.split(/\n[^\S\n]*\n/)) };
+      break;
+    }
+    case 'markdown':
+      imported = extractMarkdown(await file.text(), fallbackTitle);
+      break;
+    case 'html':
+      imported = extractHtml(await file.text(), fallbackTitle);
+      break;
+    case 'epub': {
+      // Loaded on demand so the zip reader isn't in the main bundle
+      const { extractEpub } = await import('@/lib/import/epub');
+      imported = await extractEpub(await file.arrayBuffer(), fallbackTitle);
+      break;
+    }
+    case 'pdf': {
+      // PDF.js is large, so it's only loaded when a PDF is opened
+      const { extractPdf } = await import('@/lib/import/pdf');
+      imported = await extractPdf(await file.arrayBuffer(), fallbackTitle);
+      break;
+    }
+    default:
+      throw new ImportError(`Unsupported file type: ${file.name}. Try .txt, .md, .html, .epub or .pdf.`);
+  }
+
+  if (!imported.text.trim()) {
+    throw new ImportError(`No readable text found in ${file.name}.`);
+  }
+  return imported;
+}
+
+// Fetch a web article through our own server route, since most sites block cross-origin reads
+export async function importUrl(url: string): Promise<Article> {
+  let response: Response;
+  try {
+    response = await fetch('/api/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+    });
+  } catch {
+    throw new ImportError('Couldn\'t connect to import the article. Check your connection and try again.');
+  }
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok || !result) {
+    throw new ImportError(result?.error ?? `Importing the article failed (${response.status}).`);
+  }
+  return result;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { extractMarkdown } from '@/lib/import/markdown';
+
+function toText(markdown: string): string {
+  return extractMarkdown(markdown, 'Untitled').text;
+}
+
+describe('extractMarkdown', () => {
+  it('strips emphasis written with asterisks or underscores', () => {
+    expect(toText('Some **bold**, __strong__, *slanted* and _leaning_ words.'))
+      .toBe('Some bold, strong, slanted and leaning words.');
+  });
+
+  it('keeps underscores inside words', () => {
+    expect(toText('Call snake_case_name, then read MAX_PAGE_BYTES and my__double__name.'))
+      .toBe('Call snake_case_name, then read MAX_PAGE_BYTES and my__double__name.');
+  });
+
+  it('strips emphasis next to punctuation', () => {
+    expect(toText('(_see_ the _first_ and _second_.)')).toBe('(see the first and second.)');
+  });
+
+  it('takes the first heading as the title and drops code blocks', () => {
+    const imported = extractMarkdown('# Setup guide\n\nRun it.\n\n```\nnpm install\n```\n\n- First step', 'Untitled');
+    expect(imported.title).toBe('Setup guide');
+    expect(imported.text).toBe('Setup guide\n\nRun it.\n\nFirst step');
+  });
+});
@@ -0,0 +1,72 @@
+import { normalizeParagraphs, type ImportedText } from '@/lib/import/common';
+
+// Strip inline Markdown syntax, keeping the visible text
+function stripInline(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // links
+    .replace(/\[([^\]]*)\]\[[^\]]*\]/g, '$1') // reference links
+    .replace(/<[^>]+>/g, '') // inline HTML
+    .replace(/`([^`]*)`/g, '$1') // inline code
+    .replace(/\*\*(.+?)\*\*/g, '$1') // bold
+    .replace(/(^|\W)__(.+?)__(?=\W|$)/g, '$1$2') // bold; underscores inside words (snake_case) stay
+    .replace(/\*(.+?)\*/g, '$1') // italic
+    .replace(/(^|\W)_(.+?)_(?=\W|$)/g, '$1$2') // italic, also only at word edges
+    .replace(/~~(.+?)~~/g, '$1'); // strikethrough
+}
+
+// Convert Markdown to plain paragraphs; headings, list items and quotes become their own paragraphs
+export function extractMarkdown(markdown: string, fallbackTitle: string): ImportedText {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let title: string | null = null;
+  let inCodeFence = false;
+
+  const flush = () => {
+    if (current.length > 0) paragraphs.push(current.join(' '));
+    current = [];
+  };
+
+  for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    // Code blocks aren't prose; skip them entirely
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCodeFence = !inCodeFence;
+      flush();
+      continue;
+    }
+    if (inCodeFence) continue;
+
+    const line = rawLine.trim();
+    if (line === '' || /^([-*_]\s*){3,}$/.test(line) || /^\|?[\s:-]+\|[\s|:-]*$/.test(line)) {
+      flush();
+      continue;
+    }
+    // Setext heading underline: the previous line was a heading
+    if (/^(=+|-+)$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*?)\s*#*$/);
+    if (heading) {
+      flush();
+      const text = stripInline(heading[1]);
+      title ??= text;
+      paragraphs.push(text);
+      continue;
+    }
+
+    const listItem = line.match(/^(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (listItem) {
+      flush();
+      current.push(stripInline(listItem[1]));
+      continue;
+    }
+
+    const text = stripInline(line.replace(/^(>\s?)+/, '').replace(/^\||\|$/g, '').replace(/\s*\|\s*/g, ', '));
+    current.push(text);
+  }
+  flush();
+
+  return { title: title ?? fallbackTitle, text: normalizeParagraphs(paragraphs) };
+}
@@ -0,0 +1,83 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { ImportError, normalizeParagraphs, type ImportedText } from '@/lib/import/common';
+import { endsSentence } from '@/lib/document';
+
+GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+interface Line {
+  text: string;
+  y: number;
+  height: number;
+}
+
+// Group a page's text items into lines, using PDF.js's end-of-line markers
+function getLines(items: TextItem[]): Line[] {
+  const lines: Line[] = [];
+  let text = '';
+  let first: TextItem | null = null;
+  for (const item of items) {
+    first ??= item;
+    text += item.str;
+    if (item.hasEOL) {
+      lines.push({ text, y: first.transform[5], height: first.height });
+      text = '';
+      first = null;
+    }
+  }
+  if (first && text.trim()) lines.push({ text, y: first.transform[5], height: first.height });
+  return lines.filter((line) => line.text.trim().length > 0);
+}
+
+// Join lines into paragraphs wherever the vertical gap is noticeably bigger than a normal line break
+function getParagraphs(lines: Line[]): string[] {
+  const paragraphs: string[] = [];
+  let current = '';
+  lines.forEach((line, i) => {
+    const previous = lines[i - 1];
+    const gap = previous ? previous.y - line.y : 0;
+    if (previous && gap > Math.max(previous.height, line.height) * 1.8) {
+      paragraphs.push(current);
+      current = '';
+    }
+    // Re-join words hyphenated across a line break
+    current = /\w-$/.test(current) ? current.slice(0, -1) + line.text.trim() : `${current} ${line.text.trim()}`;
+  });
+  if (current.trim()) paragraphs.push(current);
+  return paragraphs;
+}
+
+// Extract the text layer of a PDF; scanned PDFs without one are rejected
+export async function extractPdf(data: ArrayBuffer, fallbackTitle: string): Promise<ImportedText> {
+  let pdf;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(data) }).promise;
+  } catch {
+    throw new ImportError('This PDF could not be opened. It may be damaged or password-protected.');
+  }
+
+  const { info } = await pdf.getMetadata();
+  const metadataTitle = (info as { Title?: string }).Title?.trim();
+
+  const paragraphs: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const items = content.items.filter((item): item is TextItem => 'str' in item);
+    const pageParagraphs = getParagraphs(getLines(items));
+
+    // A paragraph that runs over a page break continues on the next page
+    const last = paragraphs[paragraphs.length - 1];
+    if (last !== undefined && pageParagraphs.length > 0 && !endsSentence(last.trim())) {
+      paragraphs[paragraphs.length - 1] = `${last} ${pageParagraphs.shift()}`;
+    }
+    paragraphs.push(...pageParagraphs);
+  }
+  await pdf.destroy();
+
+  const text = normalizeParagraphs(paragraphs);
+  if (!text) {
+    throw new ImportError('This PDF has no selectable text. Scanned PDFs need to be run through OCR first.');
+  }
+  return { title: metadataTitle || fallbackTitle, text };
+}
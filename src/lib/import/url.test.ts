@@ -0,0 +1,152 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Agent } from 'undici';
+import { describe, expect, it } from 'vitest';
+import { fetchArticle, pinLookup, UrlImportError, type FetchArticleOptions } from '@/lib/import/url';
+
+const ARTICLE_HTML = `<html><head><title>Saved page</title></head><body><article>${
+  '<p>This paragraph is long enough to count as the body of an article about reading faster.</p>'.repeat(10)
+}</article></body></html>`;
+
+// Every host resolves to a public documentation address unless listed
+function resolver(addresses: Record<string, string[]> = {}): FetchArticleOptions['resolve'] {
+  return async (hostname) => addresses[hostname] ?? ['203.0.113.10'];
+}
+
+// A fetch that answers from `pages` by URL and records what was requested and how
+function stubFetch(pages: Record<string, () => Response>) {
+  const requested: string[] = [];
+  const dispatchers: unknown[] = [];
+  const fetchPage = (async (input: URL | RequestInfo, init?: RequestInit & { dispatcher?: unknown }) => {
+    const url = String(input);
+    requested.push(url);
+    dispatchers.push(init?.dispatcher);
+    const page = pages[url];
+    if (!page) throw new Error(`Unexpected request to ${url}`);
+    return page();
+  }) as typeof fetch;
+  return { fetchPage, requested, dispatchers };
+}
+
+function html(body: BodyInit, headers: Record<string, string> = {}): Response {
+  return new Response(body, { headers: { 'content-type': 'text/html; charset=utf-8', ...headers } });
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+async function importError(promise: Promise<unknown>): Promise<UrlImportError> {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(UrlImportError);
+  return error as UrlImportError;
+}
+
+describe('fetchArticle', () => {
+  it('follows redirects between public pages', async () => {
+    const { fetchPage, requested } = stubFetch({
+      'https://example.com/short': () => redirect('/articles/long'),
+      'https://example.com/articles/long': () => html(ARTICLE_HTML),
+    });
+    const article = await fetchArticle('example.com/short', { fetch: fetchPage, resolve: resolver() });
+    expect(article.title).toBe('Saved page');
+    expect(requested).toEqual(['https://example.com/short', 'https://example.com/articles/long']);
+  });
+
+  it('refuses a redirect to a private address', async () => {
+    const { fetchPage, requested } = stubFetch({
+      'https://example.com/': () => redirect('http://169.254.169.254/latest/meta-data/'),
+    });
+    const error = await importError(fetchArticle('https://example.com/', { fetch: fetchPage, resolve: resolver() }));
+    expect(error.status).toBe(400);
+    expect(requested).toEqual(['https://example.com/']);
+  });
+
+  it('refuses a redirect to localhost', async () => {
+    const { fetchPage, requested } = stubFetch({ 'https://example.com/': () => redirect('http://localhost:3000/') });
+    await importError(fetchArticle('https://example.com/', { fetch: fetchPage, resolve: resolver() }));
+    expect(requested).toHaveLength(1);
+  });
+
+  it('refuses a public name that resolves to a private address', async () => {
+    const { fetchPage, requested } = stubFetch({});
+    const resolve = resolver({ 'intranet.example.com': ['10.1.2.3'] });
+    const error = await importError(fetchArticle('https://intranet.example.com/', { fetch: fetchPage, resolve }));
+    expect(error.status).toBe(400);
+    expect(requested).toEqual([]);
+  });
+
+  it('refuses IPv6 loopback and IPv4-mapped private addresses', async () => {
+    const { fetchPage } = stubFetch({});
+    await importError(fetchArticle('https://a.example.com/', { fetch: fetchPage, resolve: resolver({ 'a.example.com': ['::1'] }) }));
+    await importError(fetchArticle('https://b.example.com/', { fetch: fetchPage, resolve: resolver({ 'b.example.com': ['::ffff:192.168.0.1'] }) }));
+  });
+
+  it('refuses NAT64 addresses, which reach IPv4 hosts behind the gateway', async () => {
+    const { fetchPage, requested } = stubFetch({});
+    const resolve = resolver({ 'nat.example.com': ['64:ff9b::a9fe:a9fe'] }); // 169.254.169.254
+    await importError(fetchArticle('https://nat.example.com/', { fetch: fetchPage, resolve }));
+    expect(requested).toEqual([]);
+  });
+
+  it('connects every hop through its own dispatcher pinned to the checked addresses', async () => {
+    const { fetchPage, dispatchers } = stubFetch({
+      'https://example.com/short': () => redirect('https://www.example.com/long'),
+      'https://www.example.com/long': () => html(ARTICLE_HTML),
+    });
+    await fetchArticle('https://example.com/short', { fetch: fetchPage, resolve: resolver() });
+    expect(dispatchers).toHaveLength(2);
+    expect(dispatchers[0]).toBeInstanceOf(Agent);
+    expect(dispatchers[1]).toBeInstanceOf(Agent);
+    expect(dispatchers[0]).not.toBe(dispatchers[1]);
+  });
+
+  it('gives up after too many redirects', async () => {
+    const { fetchPage } = stubFetch({ 'https://example.com/loop': () => redirect('/loop') });
+    const error = await importError(fetchArticle('https://example.com/loop', { fetch: fetchPage, resolve: resolver() }));
+    expect(error.message).toMatch(/too many times/);
+  });
+
+  it('stops reading a body that passes the size limit without a content-length', async () => {
+    let chunksSent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        chunksSent++;
+        controller.enqueue(new Uint8Array(1024 * 1024).fill(0x61));
+      },
+    });
+    const { fetchPage } = stubFetch({ 'https://example.com/huge': () => html(body) });
+    const error = await importError(fetchArticle('https://example.com/huge', { fetch: fetchPage, resolve: resolver() }));
+    expect(error.status).toBe(413);
+    expect(chunksSent).toBeLessThan(10);
+  });
+});
+
+describe('pinLookup', () => {
+  it('answers every hostname with the pinned addresses', () => {
+    const lookup = pinLookup(['203.0.113.10', '2001:db8::1']);
+    lookup('anything.example', { all: true }, (error, addresses) => {
+      expect(error).toBeNull();
+      expect(addresses).toEqual([{ address: '203.0.113.10', family: 4 }, { address: '2001:db8::1', family: 6 }]);
+    });
+    lookup('anything.example', {}, (error, address, family) => {
+      expect(error).toBeNull();
+      expect([address, family]).toEqual(['203.0.113.10', 4]);
+    });
+  });
+
+  it('sends the request to the pinned address whatever the hostname resolves to', async () => {
+    const server = createServer((request, response) => response.end(`reached ${request.headers.host}`));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const dispatcher = new Agent({ connect: { lookup: pinLookup(['127.0.0.1']) } });
+    try {
+      // .invalid never resolves in DNS, so the response can only come through the pinned address
+      const response = await fetch(`http://rebind.invalid:${port}/`, { dispatcher } as RequestInit);
+      expect(await response.text()).toBe(`reached rebind.invalid:${port}`);
+    } finally {
+      await dispatcher.close();
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { DOMParser } from 'linkedom';
+import { Agent } from 'undici';
+import { extractArticle, type Article } from '@/lib/import/article';
+import { ImportError } from '@/lib/import/common';
+
+// Server-side only: fetches a page and extracts its article. The DOM comes from linkedom
+// since there is no DOMParser outside the browser.
+
+// Raised when a page can't be fetched or read; `status` is the HTTP status to answer with
+export class UrlImportError extends ImportError {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'UrlImportError';
+  }
+}
+
+// fetch as Node runs it, which connects through an undici dispatcher when given one
+type PageFetch = (input: URL, init: RequestInit & { dispatcher: Agent }) => Promise<Response>;
+
+export interface FetchArticleOptions {
+  fetch?: PageFetch; // swap in a stub to run against saved pages
+  resolve?: (hostname: string) => Promise<string[]>; // addresses a hostname resolves to; stub it along with `fetch`
+  timeoutMs?: number;
+}
+
+// Pages bigger than this are not articles
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Redirects followed before giving up; each hop is checked like the address that was entered
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Hosts that would let a request reach the server's own network instead of the web
+const PRIVATE_HOST_PATTERN = /^(localhost|.*\.local|.*\.internal|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|169\.254\.\d+\.\d+|0\.0\.0\.0|\[.*\])$/i;
+
+// Address ranges that aren't on the public web: loopback, private networks, link-local (which
+// includes cloud metadata services), carrier-grade NAT and their IPv6 counterparts
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4'); // multicast and reserved
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64, which reaches IPv4 addresses through the gateway
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4 addresses written as IPv6 (::ffff:10.0.0.1) are checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped, 'ipv4');
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+async function resolveHostname(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map((entry) => entry.address);
+}
+
+// Refuse hosts whose name resolves to an address on the server's own network; returns the
+// addresses that passed
+async function checkResolvedAddress(url: URL, resolve: (hostname: string) => Promise<string[]>): Promise<string[]> {
+  let addresses: string[];
+  try {
+    addresses = await resolve(url.hostname);
+  } catch {
+    throw new UrlImportError(`Couldn't reach ${url.hostname}.`, 502);
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UrlImportError('That address is not on the public web.', 400);
+  }
+  return addresses;
+}
+
+// A lookup that answers every hostname with `addresses`. Connecting through it means the
+// request goes to the addresses that were checked, rather than whatever a second DNS lookup
+// returns (a host could otherwise pass the check and then resolve to 127.0.0.1).
+export function pinLookup(addresses: string[]): LookupFunction {
+  const entries = addresses.map((address) => ({ address, family: isIP(address) }));
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, entries);
+    } else {
+      callback(null, entries[0].address, entries[0].family);
+    }
+  };
+}
+
+// Check the scheme and hostname of a URL the server is about to fetch
+function checkPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlImportError('Only http and https links can be imported.', 400);
+  }
+  if (PRIVATE_HOST_PATTERN.test(url.hostname)) {
+    throw new UrlImportError('That address is not on the public web.', 400);
+  }
+}
+
+// Parse a page with linkedom. Its documents have what extractArticle reads but are typed as
+// linkedom's own classes, so the cast to the DOM's Document is made here once.
+export function parseHtml(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html') as unknown as Document;
+}
+
+// Check a user-entered URL, adding https:// if the scheme was left off
+export function parseArticleUrl(input: string): URL {
+  const trimmed = input.trim();
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new UrlImportError('That doesn\'t look like a web address.', 400);
+  }
+  checkPublicUrl(url);
+  return url;
+}
+
+// Describe a non-HTML response in words, e.g. "a PDF" for application/pdf
+function describeContentType(contentType: string): string {
+  if (contentType.includes('pdf')) return 'a PDF (download it and open the file instead)';
+  if (contentType.startsWith('image/')) return 'an image';
+  if (contentType.startsWith('video/') || contentType.startsWith('audio/')) return 'a media file';
+  if (contentType.includes('json')) return 'JSON data';
+  return contentType ? `a ${contentType.split(';')[0]} file` : 'something other than a web page';
+}
+
+// Read a response body as text, giving up as soon as it passes `maxBytes` whatever the
+// content-length header claimed
+async function readBody(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    if (bytes > maxBytes) {
+      await reader.cancel();
+      throw new UrlImportError('That page is too large to import.', 413);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// Fetch `url`, following redirects by hand so every hop gets the same checks as the first.
+// Returns the final response and its URL.
+async function fetchPublicPage(url: URL, options: FetchArticleOptions, signal: AbortSignal): Promise<{ response: Response; url: URL }> {
+  const fetchPage: PageFetch = options.fetch ?? fetch;
+  const resolve = options.resolve ?? resolveHostname;
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    checkPublicUrl(current);
+    const addresses = await checkResolvedAddress(current, resolve);
+
+    // Closing waits for the response to be read, so this only stops the agent being reused
+    const dispatcher = new Agent({ connect: { lookup: pinLookup(addresses) } });
+    let response: Response;
+    try {
+      response = await fetchPage(current, {
+        headers: { Accept: 'text/html,application/xhtml+xml', 'User-Agent': 'Mozilla/5.0 (compatible; zoomerdigest article import)' },
+        redirect: 'manual',
+        signal,
+        dispatcher,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new UrlImportError(`${current.hostname} took too long to respond.`, 504);
+      }
+      throw new UrlImportError(`Couldn't reach ${current.hostname}.`, 502);
+    } finally {
+      dispatcher.close().catch(() => {});
+    }
+
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return { response, url: current };
+    await response.body?.cancel();
+    try {
+      current = new URL(location, current);
+    } catch {
+      throw new UrlImportError(`${current.hostname} redirected to an invalid address.`, 502);
+    }
+  }
+  throw new UrlImportError(`${url.hostname} redirected too many times.`, 502);
+}
+
+// Fetch `input` and extract its main article
+export async function fetchArticle(input: string, options: FetchArticleOptions = {}): Promise<Article> {
+  const { response, url } = await fetchPublicPage(
+    parseArticleUrl(input),
+    options,
+    AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+  );
+
+  if (response.status === 401 || response.status === 402 || response.status === 403) {
+    throw new UrlImportError(`${url.hostname} refused access to this page. It may be behind a paywall or login.`, 502);
+  }
+  if (response.status === 404 || response.status === 410) {
+    throw new UrlImportError('That page doesn\'t exist.', 502);
+  }
+  if (!response.ok) {
+    throw new UrlImportError(`${url.hostname} responded with an error (${response.status}).`, 502);
+  }
+
+  const contentType = response.headers.get('content-type')?.toLowerCase() ?? '';
+  if (!contentType.includes('html')) {
+    throw new UrlImportError(`That link points to ${describeContentType(contentType)}, not a web page.`, 415);
+  }
+  if (Number(response.headers.get('content-length')) > MAX_PAGE_BYTES) {
+    throw new UrlImportError('That page is too large to import.', 413);
+  }
+
+  let html: string;
+  try {
+    html = await readBody(response, MAX_PAGE_BYTES);
+  } catch (error) {
+    if (error instanceof UrlImportError) throw error;
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      throw new UrlImportError(`${url.hostname} took too long to respond.`, 504);
+    }
+    throw new UrlImportError(`Couldn't read the page from ${url.hostname}.`, 502);
+  }
+  const doc = parseHtml(html);
+  try {
+    return extractArticle(doc, url.href);
+  } catch (error) {
+    if (error instanceof UrlImportError || !(error instanceof ImportError)) throw error;
+    throw new UrlImportError(error.message, 422);
+  }
+}
@@ -0,0 +1,88 @@
+// A document saved in the reading library, with where the reader left off
+export interface LibraryDocument {
+  id: string;
+  title: string;
+  text: string;
+  wordCount: number;
+  position: number; // token index of the last word shown
+  speed: number; // WPM used when last read
+  createdAt: number;
+  updatedAt: number; // last time the document was opened or read
+}
+
+const DB_NAME = 'zoomerdigest';
+const DB_VERSION = 1;
+const STORE = 'documents';
+
+// localStorage key holding the id of the document open in the reader, so a refresh can reopen it
+const OPEN_DOCUMENT_KEY = 'zoomerdigest:open-document';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+// Run a single request against the documents store and resolve with its result
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// All saved documents, most recently read first
+export async function listDocuments(): Promise<LibraryDocument[]> {
+  const entries = await withStore<LibraryDocument[]>('readonly', (store) => store.getAll());
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getDocument(id: string): Promise<LibraryDocument | undefined> {
+  return withStore<LibraryDocument | undefined>('readonly', (store) => store.get(id));
+}
+
+export async function saveDocument(entry: LibraryDocument): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+// Record the reading position and speed without rewriting the caller's copy of the text
+export async function updateProgress(id: string, position: number, speed: number): Promise<void> {
+  const entry = await getDocument(id);
+  if (!entry) return;
+  await saveDocument({ ...entry, position, speed, updatedAt: Date.now() });
+}
+
+export async function deleteDocument(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// Title for pasted text: its first few words
+export function getDefaultTitle(text: string): string {
+  const words = text.trim().split(/\s+/).slice(0, 8).join(' ');
+  return words.length > 60 ? `${words.slice(0, 57)}…` : words || 'Untitled';
+}
+
+export function getOpenDocumentId(): string | null {
+  return localStorage.getItem(OPEN_DOCUMENT_KEY);
+}
+
+export function setOpenDocumentId(id: string | null): void {
+  if (id) {
+    localStorage.setItem(OPEN_DOCUMENT_KEY, id);
+  } else {
+    localStorage.removeItem(OPEN_DOCUMENT_KEY);
+  }
+}
@@ -0,0 +1,96 @@
+import { getSourceText, type ReaderDocument } from '@/lib/document';
+import { createLocalStore } from '@/lib/storage';
+
+export type MarkKind = 'bookmark' | 'highlight';
+
+// A place marked while reading: a bookmark on the words that were on screen, or a highlighted
+// sentence, optionally with a short note
+export interface Mark {
+  id: string;
+  documentId: string;
+  kind: MarkKind;
+  start: number; // first token
+  end: number; // last token
+  note: string;
+  createdAt: number;
+}
+
+const MARKS_KEY = 'zoomerdigest:marks';
+const EMPTY_MARKS: Mark[] = [];
+
+// Token range [start, end] of the sentence containing `index`
+export function getSentenceRange(doc: ReaderDocument, index: number): [number, number] {
+  const sentence = doc.tokens[index].sentence;
+  const start = doc.sentenceStarts[sentence];
+  return [start, (doc.sentenceStarts[sentence + 1] ?? doc.tokens.length) - 1];
+}
+
+const markStore = createLocalStore(MARKS_KEY, EMPTY_MARKS);
+
+// Saved marks for every document, oldest first, for useSyncExternalStore; they change in this
+// tab or another one
+export const loadMarks = markStore.load;
+export const getServerMarks = markStore.getServer;
+export const subscribeToMarks = markStore.subscribe;
+
+function saveMarks(marks: Mark[]): void {
+  if (marks.length > 0) {
+    markStore.save(marks);
+  } else {
+    markStore.clear();
+  }
+}
+
+// A document's marks in reading order
+export function getDocumentMarks(marks: Mark[], documentId: string | null): Mark[] {
+  return marks.filter((mark) => mark.documentId === documentId).sort((a, b) => a.start - b.start || a.createdAt - b.createdAt);
+}
+
+// Mark tokens `start`–`end`. Marking the same range again returns the existing mark.
+export function addMark(documentId: string, kind: MarkKind, start: number, end: number): Mark {
+  const marks = loadMarks();
+  const existing = marks.find((mark) => mark.documentId === documentId && mark.start === start && mark.end === end);
+  if (existing) return existing;
+  const mark: Mark = { id: crypto.randomUUID(), documentId, kind, start, end, note: '', createdAt: Date.now() };
+  saveMarks([...marks, mark]);
+  return mark;
+}
+
+export function updateMarkNote(id: string, note: string): void {
+  saveMarks(loadMarks().map((mark) => (mark.id === id ? { ...mark, note: note.trim() } : mark)));
+}
+
+export function deleteMark(id: string): void {
+  saveMarks(loadMarks().filter((mark) => mark.id !== id));
+}
+
+// Remove every mark on a document, e.g. when it's deleted from the library
+export function deleteDocumentMarks(documentId: string): void {
+  const marks = loadMarks();
+  if (marks.some((mark) => mark.documentId === documentId)) {
+    saveMarks(marks.filter((mark) => mark.documentId !== documentId));
+  }
+}
+
+// The sentence around a mark, with a bookmarked word in bold
+function quoteMark(doc: ReaderDocument, mark: Mark): string {
+  const [sentenceStart] = getSentenceRange(doc, mark.start);
+  const [, sentenceEnd] = getSentenceRange(doc, mark.end);
+  const flatten = (from: number, to: number) => getSourceText(doc, from, to).replace(/\s+/g, ' ');
+  if (mark.kind === 'highlight') return flatten(sentenceStart, sentenceEnd);
+  const spaceBefore = mark.start > sentenceStart ? ' ' : '';
+  const spaceAfter = mark.end < sentenceEnd ? ' ' : '';
+  return `${flatten(sentenceStart, mark.start - 1)}${spaceBefore}**${flatten(mark.start, mark.end)}**${spaceAfter}${flatten(mark.end + 1, sentenceEnd)}`;
+}
+
+// Marks as a Markdown document: each one's sentence as a quote, followed by its note
+export function exportMarksMarkdown(title: string, doc: ReaderDocument, marks: Mark[]): string {
+  const sections = marks
+    .filter((mark) => mark.end < doc.tokens.length)
+    .map((mark) => {
+      const heading = `## ${mark.kind === 'highlight' ? 'Highlight' : 'Bookmark'} at word ${mark.start + 1}`;
+      const quote = `> ${quoteMark(doc, mark)}`;
+      return [heading, quote, mark.note].filter(Boolean).join('\n\n');
+    });
+  return `# ${title}\n\n${sections.join('\n\n')}\n`;
+}
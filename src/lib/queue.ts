@@ -0,0 +1,60 @@
+import type { LibraryDocument } from '@/lib/library';
+import { createLocalStore } from '@/lib/storage';
+
+const QUEUE_KEY = 'zoomerdigest:queue';
+const EMPTY_QUEUE: string[] = [];
+
+// Seconds the title card for the next document stays up before it starts
+export const QUEUE_CARD_SECONDS = 5;
+
+const queueStore = createLocalStore(QUEUE_KEY, EMPTY_QUEUE);
+
+// Library ids of the documents lined up to read one after another. The first is the one being
+// read or up next; each is dropped from the queue once it's finished or skipped. Read
+// through useSyncExternalStore; it changes in this tab or another one.
+export const loadQueue = queueStore.load;
+export const getServerQueue = queueStore.getServer;
+export const subscribeToQueue = queueStore.subscribe;
+
+function saveQueue(queue: string[]): void {
+  if (queue.length > 0) {
+    queueStore.save(queue);
+  } else {
+    queueStore.clear();
+  }
+}
+
+// Add a document to the end of the queue, unless it's already in it
+export function enqueue(id: string): void {
+  const queue = loadQueue();
+  if (!queue.includes(id)) saveQueue([...queue, id]);
+}
+
+export function dequeue(id: string): void {
+  const queue = loadQueue();
+  if (queue.includes(id)) saveQueue(queue.filter((queued) => queued !== id));
+}
+
+// Move a document one place earlier (-1) or later (1) in the queue
+export function moveInQueue(id: string, direction: -1 | 1): void {
+  const queue = [...loadQueue()];
+  const from = queue.indexOf(id);
+  const to = from + direction;
+  if (from === -1 || to < 0 || to >= queue.length) return;
+  [queue[from], queue[to]] = [queue[to], queue[from]];
+  saveQueue(queue);
+}
+
+export function clearQueue(): void {
+  saveQueue(EMPTY_QUEUE);
+}
+
+// The queued documents found in the library, in queue order
+export function getQueuedDocuments(queue: string[], library: LibraryDocument[]): LibraryDocument[] {
+  return queue.flatMap((id) => library.filter((entry) => entry.id === id));
+}
+
+// Word a queued document starts from: where it was left, or the top if it was read to the end
+export function getQueueStartPosition(entry: LibraryDocument): number {
+  return entry.position >= entry.wordCount - 1 ? 0 : entry.position;
+}
@@ -0,0 +1,204 @@
+import { getSourceText, type ReaderDocument } from '@/lib/document';
+import { stripNonLetters } from '@/lib/script';
+import { createLocalStore } from '@/lib/storage';
+import { isRareWord } from '@/lib/timing';
+
+// A multiple-choice question about a passage that was just read
+export interface QuizQuestion {
+  kind: 'cloze' | 'appeared';
+  prompt: string;
+  passage: string | null; // for cloze questions, the sentence with the missing word blanked out
+  choices: string[];
+  answer: number; // index of the right choice
+}
+
+// Score from one quiz, with the speed the passage was read at
+export interface QuizResult {
+  id: string;
+  documentId: string | null;
+  takenAt: number;
+  wpm: number;
+  correct: number;
+  total: number;
+}
+
+const RESULTS_KEY = 'zoomerdigest:quiz-results';
+const MAX_RESULTS = 1000;
+const EMPTY_RESULTS: QuizResult[] = [];
+
+const CLOZE_QUESTIONS = 3;
+const APPEARED_QUESTIONS = 2;
+const CHOICES = 4;
+const PHRASE_WORDS = 3;
+const BLANK = '_____';
+
+// Passages shorter than this don't have enough material for distinct questions
+const MIN_QUIZ_WORDS = 40;
+
+// Leading punctuation, the word itself, and trailing punctuation
+const WORD_PARTS = /^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u;
+
+function getCore(text: string): string {
+  return WORD_PARTS.exec(text)?.[2] ?? text;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Put the answer among the distractors at a random position
+function makeChoices(answer: string, distractors: string[], random: () => number): { choices: string[]; answer: number } {
+  const choices = shuffle([answer, ...distractors.slice(0, CHOICES - 1)], random);
+  return { choices, answer: choices.indexOf(answer) };
+}
+
+// Token ranges [start, end] of each sentence
+function getSentences(doc: ReaderDocument): [number, number][] {
+  return doc.sentenceStarts.map((start, i) => [start, (doc.sentenceStarts[i + 1] ?? doc.tokens.length) - 1]);
+}
+
+// Blank out the key word of a sentence: its longest uncommon word. Distractors are other
+// uncommon words from the same text, close in length, so the choices all look plausible.
+function makeClozeQuestions(doc: ReaderDocument, count: number, random: () => number): QuizQuestion[] {
+  const rareWords = new Map<string, string>(); // lowercase → as written
+  for (const token of doc.tokens) {
+    const core = getCore(token.text);
+    if (isRareWord(core) && Array.from(stripNonLetters(core)).length >= 5) rareWords.set(core.toLowerCase(), core);
+  }
+
+  const candidates = getSentences(doc).flatMap(([start, end]) => {
+    if (end - start + 1 < 6 || end - start + 1 > 40) return [];
+    const key = doc.tokens
+      .slice(start, end + 1)
+      .filter((token) => rareWords.has(getCore(token.text).toLowerCase()))
+      .sort((a, b) => getCore(b.text).length - getCore(a.text).length)[0];
+    return key ? [{ start, end, key }] : [];
+  });
+
+  const questions: { position: number; question: QuizQuestion }[] = [];
+  for (const { start, end, key } of shuffle(candidates, random)) {
+    if (questions.length >= count) break;
+    const answer = getCore(key.text);
+    const sentence = getSourceText(doc, start, end).toLowerCase();
+    const distractors = shuffle(
+      Array.from(rareWords.values())
+        .filter((word) => !sentence.includes(word.toLowerCase()))
+        .sort((a, b) => Math.abs(a.length - answer.length) - Math.abs(b.length - answer.length))
+        .slice(0, 8),
+      random,
+    );
+    if (distractors.length < CHOICES - 1) continue;
+
+    const [, before, , after] = WORD_PARTS.exec(key.text) ?? ['', '', '', ''];
+    const passage = getSourceText(doc, start, key.index - 1)
+      + (key.index > start ? doc.text.slice(doc.tokens[key.index - 1].end, key.start) : '')
+      + before + BLANK + after
+      + (key.index < end ? doc.text.slice(key.end, doc.tokens[key.index + 1].start) : '')
+      + getSourceText(doc, key.index + 1, end);
+    questions.push({
+      position: start,
+      question: {
+        kind: 'cloze',
+        prompt: 'Which word is missing?',
+        passage: passage.replace(/\s+/g, ' '),
+        ...makeChoices(answer, distractors, random),
+      },
+    });
+  }
+  // Ask in reading order
+  return questions.sort((a, b) => a.position - b.position).map(({ question }) => question);
+}
+
+// One real phrase from the text against phrases whose key word was swapped for another
+// uncommon word from the text, so every choice uses familiar vocabulary
+function makeAppearedQuestions(doc: ReaderDocument, count: number, random: () => number): QuizQuestion[] {
+  const words = doc.tokens.map((token) => getCore(token.text));
+  const normalized = ` ${words.join(' ').toLowerCase()} `;
+  const vocabulary = Array.from(new Set(words.filter((word) => isRareWord(word))));
+  const longestWord = (phrase: string[]) => phrase.indexOf(phrase.reduce((a, b) => (b.length > a.length ? b : a)));
+
+  // Phrases of whole words from within one sentence, built around one of its uncommon words
+  const phrases = shuffle(
+    getSentences(doc).flatMap(([start, end]) => {
+      if (end - start + 1 < PHRASE_WORDS) return [];
+      const keys = words.slice(start, end + 1).flatMap((word, i) => (isRareWord(word) ? [start + i] : []));
+      if (keys.length === 0) return [];
+      const key = keys[Math.floor(random() * keys.length)];
+      const offset = Math.max(start, Math.min(end + 1 - PHRASE_WORDS, key - Math.floor(random() * PHRASE_WORDS)));
+      const phrase = words.slice(offset, offset + PHRASE_WORDS);
+      return phrase.every((word) => stripNonLetters(word).length > 0) ? [phrase] : [];
+    }),
+    random,
+  );
+
+  const alter = (phrase: string[]): string | null => {
+    const slot = longestWord(phrase);
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const altered = phrase.slice();
+      altered[slot] = vocabulary[Math.floor(random() * vocabulary.length)];
+      const text = altered.join(' ');
+      if (!normalized.includes(` ${text.toLowerCase()} `)) return text;
+    }
+    return null;
+  };
+
+  const questions: QuizQuestion[] = [];
+  let next = 0;
+  while (questions.length < count && next + CHOICES <= phrases.length) {
+    const [real, ...others] = phrases.slice(next, next + CHOICES);
+    next += CHOICES;
+    const distractors = others.map(alter).filter((text): text is string => text !== null);
+    if (distractors.length < CHOICES - 1) continue;
+    questions.push({
+      kind: 'appeared',
+      prompt: 'Which of these phrases appeared in the text?',
+      passage: null,
+      ...makeChoices(real.join(' '), distractors, random),
+    });
+  }
+  return questions;
+}
+
+// Generate a short quiz from the text alone; empty if the passage is too short to quiz on
+export function generateQuiz(doc: ReaderDocument, random: () => number = Math.random): QuizQuestion[] {
+  if (doc.tokens.length < MIN_QUIZ_WORDS) return [];
+  return [
+    ...makeClozeQuestions(doc, CLOZE_QUESTIONS, random),
+    ...makeAppearedQuestions(doc, APPEARED_QUESTIONS, random),
+  ];
+}
+
+const resultStore = createLocalStore(RESULTS_KEY, EMPTY_RESULTS);
+
+// Saved quiz results, oldest first, for useSyncExternalStore
+export const loadQuizResults = resultStore.load;
+export const getServerQuizResults = resultStore.getServer;
+export const subscribeToQuizResults = resultStore.subscribe;
+export const clearQuizResults = resultStore.clear;
+
+export function saveQuizResult(result: QuizResult): void {
+  resultStore.save([...loadQuizResults(), result].slice(-MAX_RESULTS));
+}
+
+// Share of questions answered correctly at each reading speed, grouped into `bucketSize` WPM bands
+export function getComprehensionBySpeed(
+  results: QuizResult[],
+  bucketSize = 50,
+): { wpm: number; score: number; quizzes: number }[] {
+  const buckets = new Map<number, { correct: number; total: number; quizzes: number }>();
+  for (const result of results) {
+    const wpm = Math.round(result.wpm / bucketSize) * bucketSize;
+    const bucket = buckets.get(wpm) ?? { correct: 0, total: 0, quizzes: 0 };
+    bucket.correct += result.correct;
+    bucket.total += result.total;
+    bucket.quizzes++;
+    buckets.set(wpm, bucket);
+  }
+  return Array.from(buckets, ([wpm, bucket]) => ({ wpm, score: bucket.correct / bucket.total, quizzes: bucket.quizzes }))
+    .sort((a, b) => a.wpm - b.wpm);
+}
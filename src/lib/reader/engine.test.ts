@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest';
+import { CHUNK_PRESETS } from '@/lib/chunking';
+import { parseText } from '@/lib/document';
+import { ReaderEngine, type Clock } from '@/lib/reader/engine';
+import { TIMING_PRESETS } from '@/lib/timing';
+
+// Clock that only moves when the test advances it
+class FakeClock implements Clock {
+  private time = 0;
+  private nextHandle = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  // Time until the next timer fires, or null when none is pending
+  nextDelay(): number | null {
+    const times = Array.from(this.timers.values(), (timer) => timer.at);
+    return times.length === 0 ? null : Math.min(...times) - this.time;
+  }
+
+  advance(ms: number): void {
+    const until = this.time + ms;
+    for (;;) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= until)
+        .sort(([, a], [, b]) => a.at - b.at)[0];
+      if (!due) break;
+      const [handle, timer] = due;
+      this.timers.delete(handle);
+      this.time = timer.at;
+      timer.callback();
+    }
+    this.time = until;
+  }
+}
+
+// 600 WPM is 100 ms a word; the classic preset only adds punctuation and paragraph pauses
+const WPM = 600;
+const BASE_MS = 100;
+
+function createEngine(text: string) {
+  const clock = new FakeClock();
+  const engine = new ReaderEngine({
+    wpm: WPM,
+    clock,
+    timingProfile: TIMING_PRESETS.classic.profile,
+    chunkLimits: CHUNK_PRESETS.single.limits,
+  });
+  engine.load(parseText(text));
+  return { clock, engine };
+}
+
+// How long each word stays on screen during playback
+function collectDelays(text: string): number[] {
+  const { clock, engine } = createEngine(text);
+  const delays: number[] = [];
+  engine.play();
+  for (let delay = clock.nextDelay(); delay !== null; delay = clock.nextDelay()) {
+    delays.push(Math.round(delay));
+    clock.advance(delay);
+  }
+  return delays;
+}
+
+describe('ReaderEngine timing', () => {
+  it('pauses longer after a full stop, semicolon and comma', () => {
+    // Classic pauses: 1.5× after a sentence, 1.2× after a clause, 1.1× after a comma
+    expect(collectDelays('One. Two; three, four')).toEqual([150, 120, 110, BASE_MS]);
+  });
+
+  it('uses the paragraph pause in place of the sentence pause at a paragraph break', () => {
+    // 2× at the break rather than the 1.5× a sentence end gets
+    expect(collectDelays('First end.\n\nSecond')).toEqual([BASE_MS, 200, BASE_MS]);
+  });
+
+  it('restarts the word on screen at the new speed', () => {
+    const { clock, engine } = createEngine('one two three');
+    engine.play();
+    clock.advance(50);
+    engine.setSpeed(300);
+    expect(clock.nextDelay()).toBe(200);
+  });
+});
+
+describe('ReaderEngine playback', () => {
+  it('advances one word per tick and reports each word read', () => {
+    const { clock, engine } = createEngine('one two three');
+    const advanced: number[] = [];
+    engine.on('advance', ({ chunk }) => advanced.push(chunk.start));
+    engine.play();
+    clock.advance(BASE_MS);
+    expect(engine.getState().index).toBe(1);
+    clock.advance(BASE_MS);
+    expect(engine.getState().index).toBe(2);
+    expect(advanced).toEqual([0, 1]);
+  });
+
+  it('stops on the last word and emits end once', () => {
+    const { clock, engine } = createEngine('one two three');
+    let ends = 0;
+    const advanced: number[] = [];
+    engine.on('end', () => ends++);
+    engine.on('advance', ({ chunk }) => advanced.push(chunk.start));
+    engine.play();
+    clock.advance(10_000);
+    expect(ends).toBe(1);
+    expect(advanced).toEqual([0, 1, 2]);
+    expect(engine.getState()).toMatchObject({ index: 2, playing: false });
+    expect(clock.nextDelay()).toBeNull();
+  });
+
+  it('holds its place while paused', () => {
+    const { clock, engine } = createEngine('one two three');
+    engine.play();
+    clock.advance(BASE_MS);
+    engine.pause();
+    clock.advance(10_000);
+    expect(engine.getState()).toMatchObject({ index: 1, playing: false });
+  });
+
+  it('does not play an empty document', () => {
+    const { clock, engine } = createEngine('');
+    engine.play();
+    expect(engine.getState().playing).toBe(false);
+    expect(clock.nextDelay()).toBeNull();
+  });
+});
+
+// Sentences start at words 0, 3, 6 and 8; the paragraph break comes before word 6
+const SEGMENTED_TEXT = 'One two three. Four five six.\n\nSeven eight. Nine ten.';
+
+describe('ReaderEngine seeking', () => {
+  it('moves to the word and reports where it came from while paused', () => {
+    const { clock, engine } = createEngine(SEGMENTED_TEXT);
+    const seeks: { from: number; to: number }[] = [];
+    engine.on('seek', (seek) => seeks.push(seek));
+    engine.seek(4);
+    expect(engine.getState()).toMatchObject({ index: 4, playing: false });
+    expect(seeks).toEqual([{ from: 0, to: 4 }]);
+    expect(clock.nextDelay()).toBeNull();
+  });
+
+  it('carries on playing from the new word with a fresh timer', () => {
+    const { clock, engine } = createEngine(SEGMENTED_TEXT);
+    engine.play();
+    clock.advance(50);
+    engine.seek(6);
+    expect(clock.nextDelay()).toBe(BASE_MS);
+    clock.advance(BASE_MS);
+    expect(engine.getState()).toMatchObject({ index: 7, playing: true });
+  });
+
+  it('clamps to the first and last word', () => {
+    const { engine } = createEngine(SEGMENTED_TEXT);
+    const seeks: { from: number; to: number }[] = [];
+    engine.on('seek', (seek) => seeks.push(seek));
+    engine.seek(99);
+    expect(engine.getState().index).toBe(9);
+    engine.seek(-5);
+    expect(engine.getState().index).toBe(0);
+    expect(seeks).toEqual([{ from: 0, to: 9 }, { from: 9, to: 0 }]);
+  });
+
+  it('ignores seeks in an empty document', () => {
+    const { engine } = createEngine('');
+    let seeks = 0;
+    engine.on('seek', () => seeks++);
+    engine.seek(3);
+    expect(seeks).toBe(0);
+    expect(engine.getState().index).toBe(0);
+  });
+});
+
+describe('ReaderEngine skipping', () => {
+  // Skip once from `from` and return the word it lands on
+  function skipFrom(from: number, unit: 'word' | 'sentence' | 'paragraph', direction: 1 | -1): number {
+    const { engine } = createEngine(SEGMENTED_TEXT);
+    engine.seek(from);
+    engine.skip(unit, direction);
+    return engine.getState().index;
+  }
+
+  it('steps one word, stopping at both ends', () => {
+    expect(skipFrom(4, 'word', 1)).toBe(5);
+    expect(skipFrom(4, 'word', -1)).toBe(3);
+    expect(skipFrom(0, 'word', -1)).toBe(0);
+    expect(skipFrom(9, 'word', 1)).toBe(9);
+  });
+
+  it('goes to the next sentence, or stays put in the last one', () => {
+    expect(skipFrom(1, 'sentence', 1)).toBe(3);
+    expect(skipFrom(5, 'sentence', 1)).toBe(6);
+    expect(skipFrom(9, 'sentence', 1)).toBe(9);
+  });
+
+  it('goes back to the start of the sentence, or the one before if just past its start', () => {
+    expect(skipFrom(5, 'sentence', -1)).toBe(3);
+    expect(skipFrom(4, 'sentence', -1)).toBe(0);
+    expect(skipFrom(3, 'sentence', -1)).toBe(0);
+    expect(skipFrom(1, 'sentence', -1)).toBe(0);
+  });
+
+  it('skips across the paragraph break in either direction', () => {
+    expect(skipFrom(2, 'paragraph', 1)).toBe(6);
+    expect(skipFrom(8, 'paragraph', 1)).toBe(8);
+    expect(skipFrom(8, 'paragraph', -1)).toBe(6);
+    expect(skipFrom(6, 'paragraph', -1)).toBe(0);
+  });
+
+  it('keeps playing after a skip', () => {
+    const { clock, engine } = createEngine(SEGMENTED_TEXT);
+    engine.play();
+    engine.skip('paragraph', 1);
+    clock.advance(BASE_MS);
+    expect(engine.getState()).toMatchObject({ index: 7, playing: true });
+  });
+});
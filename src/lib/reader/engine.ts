@@ -0,0 +1,330 @@
+import { buildChunks, CHUNK_PRESETS, DEFAULT_CHUNK_PRESET, findChunk, getChunkDelay, type Chunk, type ChunkLimits } from '@/lib/chunking';
+import { EMPTY_DOCUMENT, type ReaderDocument } from '@/lib/document';
+import { getRampFactor, getSentenceDifficulty, type SpeedRamp } from '@/lib/reader/pacing';
+import { DEFAULT_TIMING_PRESET, getTokenDelay, TIMING_PRESETS, type TimingProfile } from '@/lib/timing';
+
+// Timer functions the engine schedules words with; pass a fake clock to step through playback by hand
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// Snapshot of the reader; a new object is created on every change
+export interface ReaderState {
+  doc: ReaderDocument;
+  index: number; // current token
+  chunk: Chunk; // tokens on screen, which contains `index`
+  playing: boolean;
+  held: boolean; // playing, but the timer is held (e.g. while the user scrubs)
+  wpm: number; // target speed; warm-up and auto-pace read some words slower (see getEffectiveWpm)
+  timingProfile: TimingProfile;
+  ramp: SpeedRamp | null;
+  rampFrom: number; // token where the current warm-up began, i.e. where playback last started
+  autoPace: boolean; // slow down for sentences that are harder than the rest of the text
+}
+
+export interface ReaderEvents {
+  change: ReaderState;
+  play: ReaderState;
+  pause: ReaderState; // stopped by the caller
+  end: ReaderState; // playback reached the last word and stopped
+  advance: { chunk: Chunk }; // a chunk finished its time on screen during playback
+  seek: { from: number; to: number };
+  speed: { wpm: number };
+}
+
+export interface ReaderOptions {
+  wpm?: number;
+  minWpm?: number;
+  maxWpm?: number;
+  timingProfile?: TimingProfile;
+  chunkLimits?: ChunkLimits;
+  ramp?: SpeedRamp | null;
+  autoPace?: boolean;
+  clock?: Clock;
+}
+
+export type SkipUnit = 'word' | 'sentence' | 'paragraph';
+
+// Paces playback in place of the timer, e.g. from speech synthesis events. `start` is called
+// whenever playback (re)starts from `state`; it reports progress with `advanceTo` (which doesn't
+// restart it) and calls `finish` after the last word. `stop` must silence any later callbacks.
+export interface Pacer {
+  start(state: ReaderState, advanceTo: (index: number) => void, finish: () => void): void;
+  stop(): void;
+}
+
+type Listener<K extends keyof ReaderEvents> = (payload: ReaderEvents[K]) => void;
+
+// Find the segment start to jump to from `index`, given sorted segment starts.
+// Going back from the first word of a segment lands on the previous segment
+// so repeated presses keep rewinding instead of sticking to the same start.
+function findSegmentStart(starts: number[], index: number, direction: 1 | -1): number {
+  if (direction > 0) {
+    return starts.find((start) => start > index) ?? index;
+  }
+  let current = 0;
+  let previous = 0;
+  for (const start of starts) {
+    if (start > index) break;
+    previous = current;
+    current = start;
+  }
+  return index - current <= 1 ? previous : current;
+}
+
+// Speed for the token at `index` once warm-up and auto-pace are applied. While paused, the
+// warm-up is projected from the current word, since playback will ramp up again on resume.
+export function getEffectiveWpm(state: ReaderState, index: number): number {
+  const rampFrom = state.playing ? state.rampFrom : state.chunk.start;
+  let wpm = state.wpm * getRampFactor(state.ramp, index - rampFrom);
+  const sentence = state.doc.tokens[index]?.sentence;
+  if (state.autoPace && sentence !== undefined) wpm /= getSentenceDifficulty(state.doc)[sentence];
+  return wpm;
+}
+
+// How long the chunk on screen stays up, in milliseconds
+export function getDisplayTime(state: ReaderState): number {
+  return getChunkDelay(state.doc, state.chunk, getEffectiveWpm(state, state.chunk.start), state.timingProfile);
+}
+
+// Time to read everything after the chunk on screen, in milliseconds
+export function getRemainingTime(state: ReaderState): number {
+  let totalMs = 0;
+  for (let i = state.chunk.end + 1; i < state.doc.tokens.length; i++) {
+    totalMs += getTokenDelay(state.doc, i, getEffectiveWpm(state, i), state.timingProfile);
+  }
+  return totalMs;
+}
+
+// Drives RSVP playback of a document: which chunk is on screen, when to move on, and
+// how play, pause, seek and speed changes affect that. Knows nothing about rendering.
+export class ReaderEngine {
+  private state: ReaderState;
+  private chunks: Chunk[] = [];
+  private chunkLimits: ChunkLimits;
+  private minWpm: number;
+  private maxWpm: number;
+  private readonly clock: Clock;
+  private timer: unknown = null;
+  private pacer: Pacer | null = null;
+  private listeners = new Map<keyof ReaderEvents, Set<Listener<never>>>();
+
+  constructor(options: ReaderOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.chunkLimits = options.chunkLimits ?? CHUNK_PRESETS[DEFAULT_CHUNK_PRESET].limits;
+    this.minWpm = options.minWpm ?? 100;
+    this.maxWpm = options.maxWpm ?? 1000;
+    this.state = {
+      doc: EMPTY_DOCUMENT,
+      index: 0,
+      chunk: { start: 0, end: 0 },
+      playing: false,
+      held: false,
+      wpm: this.clampWpm(options.wpm ?? 300),
+      timingProfile: options.timingProfile ?? TIMING_PRESETS[DEFAULT_TIMING_PRESET].profile,
+      ramp: options.ramp ?? null,
+      rampFrom: 0,
+      autoPace: options.autoPace ?? false,
+    };
+  }
+
+  getState(): ReaderState {
+    return this.state;
+  }
+
+  // Subscribe to an event; returns the unsubscribe function
+  on<K extends keyof ReaderEvents>(event: K, listener: Listener<K>): () => void {
+    let listeners = this.listeners.get(event) as Set<Listener<K>> | undefined;
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners as Set<Listener<never>>);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  // Replace the document, stopped at `index`
+  load(doc: ReaderDocument, index = 0): void {
+    this.pause();
+    this.chunks = buildChunks(doc, this.chunkLimits);
+    this.update({ doc, index: this.clampIndex(index, doc), playing: false, held: false });
+  }
+
+  play(): void {
+    if (this.state.playing || this.state.doc.tokens.length === 0) return;
+    this.update({ playing: true, rampFrom: this.state.chunk.start });
+    this.emit('play', this.state);
+    this.schedule();
+  }
+
+  pause(): void {
+    if (!this.state.playing) return;
+    this.stopPacing();
+    this.update({ playing: false });
+    this.emit('pause', this.state);
+  }
+
+  toggle(): void {
+    if (this.state.playing) this.pause();
+    else this.play();
+  }
+
+  // Jump to a word, clamped to the text. Playback continues from there if it was running.
+  seek(index: number): void {
+    if (this.state.doc.tokens.length === 0) return;
+    const from = this.state.index;
+    const to = this.clampIndex(index, this.state.doc);
+    this.update({ index: to });
+    this.emit('seek', { from, to });
+    this.schedule();
+  }
+
+  // Skip back or forward by word, sentence or paragraph
+  skip(unit: SkipUnit, direction: 1 | -1): void {
+    const { doc, index } = this.state;
+    if (unit === 'word') {
+      this.seek(index + direction);
+    } else {
+      const starts = unit === 'sentence' ? doc.sentenceStarts : doc.paragraphStarts;
+      this.seek(findSegmentStart(starts, index, direction));
+    }
+  }
+
+  // Change speed; the word on screen restarts its timer at the new speed
+  setSpeed(wpm: number): void {
+    const clamped = this.clampWpm(wpm);
+    if (clamped === this.state.wpm) return;
+    this.update({ wpm: clamped });
+    this.emit('speed', { wpm: clamped });
+    this.schedule();
+  }
+
+  adjustSpeed(delta: number): void {
+    this.setSpeed(this.state.wpm + delta);
+  }
+
+  setSpeedRange(minWpm: number, maxWpm: number): void {
+    this.minWpm = minWpm;
+    this.maxWpm = maxWpm;
+    this.setSpeed(this.state.wpm);
+  }
+
+  setTimingProfile(timingProfile: TimingProfile): void {
+    this.update({ timingProfile });
+    this.schedule();
+  }
+
+  setChunkLimits(limits: ChunkLimits): void {
+    this.chunkLimits = limits;
+    this.chunks = buildChunks(this.state.doc, limits);
+    this.update({});
+    this.schedule();
+  }
+
+  // Warm up from a slower speed each time playback starts, or not with null
+  setRamp(ramp: SpeedRamp | null): void {
+    this.update({ ramp });
+    this.schedule();
+  }
+
+  setAutoPace(autoPace: boolean): void {
+    this.update({ autoPace });
+    this.schedule();
+  }
+
+  // Hand pacing to `pacer`, or back to the timer with null
+  setPacer(pacer: Pacer | null): void {
+    this.stopPacing();
+    this.pacer = pacer;
+    this.schedule();
+  }
+
+  // Hold the timer without leaving play, e.g. while the user drags the progress bar
+  setHeld(held: boolean): void {
+    if (held === this.state.held) return;
+    this.update({ held });
+    this.schedule();
+  }
+
+  // Stop the timer; the engine can still be played again afterwards
+  dispose(): void {
+    this.pause();
+    this.stopPacing();
+  }
+
+  private schedule(): void {
+    this.stopPacing();
+    const { playing, held, doc } = this.state;
+    if (!playing || held || doc.tokens.length === 0) return;
+    if (this.pacer) {
+      this.pacer.start(this.state, (index) => this.advanceTo(index), () => this.finish());
+    } else {
+      this.timer = this.clock.setTimeout(() => this.tick(), getDisplayTime(this.state));
+    }
+  }
+
+  // The chunk on screen has had its time: move to the next one, or stop at the end
+  private tick(): void {
+    this.timer = null;
+    const { chunk, doc } = this.state;
+    if (chunk.end >= doc.tokens.length - 1) {
+      this.finish();
+      return;
+    }
+    this.emit('advance', { chunk });
+    this.update({ index: chunk.end + 1 });
+    this.schedule();
+  }
+
+  // The pacer has reached `index`; words before it count as read
+  private advanceTo(index: number): void {
+    const { chunk, doc } = this.state;
+    if (index <= chunk.end || index >= doc.tokens.length) return;
+    this.emit('advance', { chunk: { start: chunk.start, end: index - 1 } });
+    this.update({ index });
+  }
+
+  private finish(): void {
+    this.emit('advance', { chunk: this.state.chunk });
+    this.update({ playing: false });
+    this.emit('end', this.state);
+  }
+
+  // Stop the timer or pacer; nothing advances until the next schedule()
+  private stopPacing(): void {
+    this.pacer?.stop();
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private update(changes: Partial<Omit<ReaderState, 'chunk'>>): void {
+    const next = { ...this.state, ...changes };
+    const chunk = findChunk(this.chunks, next.index) ?? { start: next.index, end: next.index };
+    this.state = { ...next, chunk };
+    this.emit('change', this.state);
+  }
+
+  private emit<K extends keyof ReaderEvents>(event: K, payload: ReaderEvents[K]): void {
+    (this.listeners.get(event) as Set<Listener<K>> | undefined)?.forEach((listener) => listener(payload));
+  }
+
+  private clampIndex(index: number, doc: ReaderDocument): number {
+    return Math.max(0, Math.min(doc.tokens.length - 1, index));
+  }
+
+  private clampWpm(wpm: number): number {
+    return Math.max(this.minWpm, Math.min(this.maxWpm, wpm));
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { getDisplayParts, getFocalIndex, splitChunk, splitWord } from '@/lib/reader/focal';
+
+describe('getFocalIndex', () => {
+  it('moves the focal letter right as alphabetic words get longer', () => {
+    expect(getFocalIndex('a')).toBe(1);
+    expect(getFocalIndex('word')).toBe(2);
+    expect(getFocalIndex('reader')).toBe(3);
+    expect(getFocalIndex('cognition')).toBe(4);
+    expect(getFocalIndex('understanding')).toBe(5);
+    expect(getFocalIndex('incomprehensibility')).toBe(6);
+  });
+
+  it('ignores punctuation when measuring a word', () => {
+    expect(getFocalIndex('"word,"')).toBe(getFocalIndex('word'));
+  });
+
+  it('uses the middle character of CJK words', () => {
+    expect(getFocalIndex('東京都')).toBe(2);
+  });
+});
+
+describe('splitWord', () => {
+  it('splits around the focal letter, keeping case', () => {
+    expect(splitWord('Reading')).toEqual({ before: 'Rea', focal: 'd', after: 'ing' });
+  });
+
+  it('skips leading punctuation when finding the focal letter', () => {
+    expect(splitWord('"Hello,"')).toEqual({ before: '"He', focal: 'l', after: 'lo,"' });
+  });
+
+  it('keeps combining marks with the focal letter', () => {
+    // "e" followed by a combining acute accent
+    expect(splitWord('de\u0301ja')).toEqual({ before: 'd', focal: 'e\u0301', after: 'ja' });
+  });
+
+  it('splits tokens without letters at their middle', () => {
+    expect(splitWord('—')).toEqual({ before: '', focal: '—', after: '' });
+  });
+});
+
+describe('splitChunk', () => {
+  it('puts one focal point about a third of the way into a multi-word chunk', () => {
+    expect(splitChunk('in the park')).toEqual({ before: 'in t', focal: 'h', after: 'e park' });
+  });
+});
+
+describe('getDisplayParts', () => {
+  it('returns empty parts for no text', () => {
+    expect(getDisplayParts('')).toEqual({ before: '', focal: '', after: '' });
+  });
+
+  it('adds zero-width joiners around the split in Arabic words', () => {
+    const parts = getDisplayParts('كتابة');
+    expect(parts.focal.startsWith('‍')).toBe(true);
+    expect(parts.before.endsWith('‍')).toBe(true);
+  });
+});
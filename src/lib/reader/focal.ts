@@ -0,0 +1,117 @@
+import { getScript, LETTER_PATTERN, MARK_PATTERN, stripNonLetters, type Script } from '@/lib/script';
+
+// A word or chunk split around its focal letter
+export interface WordParts {
+  before: string;
+  focal: string;
+  after: string;
+}
+
+// Optimal recognition point for alphabetic words: a little left of centre
+function getAlphabeticFocalIndex(cleanLength: number): number {
+  if (cleanLength <= 2) return 1;
+  if (cleanLength <= 4) return 2;
+  if (cleanLength <= 6) return 3;
+  if (cleanLength <= 9) return 4;
+  if (cleanLength <= 13) return 5;
+  return 6;
+}
+
+// Focal letter rules per writing system. Arabic and Hebrew use the alphabetic table, counted
+// from the right since letters are split in logical order. CJK words are only a few characters
+// long, so the middle one works best; Thai, Lao, Khmer and Myanmar sit a little left of centre.
+const FOCAL_RULES: Record<Script, (cleanLength: number) => number> = {
+  alphabetic: getAlphabeticFocalIndex,
+  arabic: getAlphabeticFocalIndex,
+  hebrew: getAlphabeticFocalIndex,
+  cjk: (cleanLength) => Math.ceil(cleanLength / 2),
+  'southeast-asian': (cleanLength) => Math.max(1, Math.ceil(cleanLength * 0.4)),
+};
+
+// Calculate the focal letter index based on word length and script
+export function getFocalIndex(word: string): number {
+  // Remove punctuation for length calculation but keep it for display
+  const cleanLength = Array.from(stripNonLetters(word)).length;
+  return FOCAL_RULES[getScript(word)](cleanLength);
+}
+
+// Split word into parts: before focal, focal, after focal
+// Preserves original capitalization
+export function splitWord(word: string): WordParts {
+  return splitAtLetter(word, getFocalIndex(word));
+}
+
+// Split a multi-word chunk around one focal point for the whole group,
+// about a third of the way into its letters (single words use the usual table)
+export function splitChunk(text: string): WordParts {
+  if (!text.includes(' ')) return splitWord(text);
+  const letterCount = Array.from(stripNonLetters(text)).length;
+  return splitAtLetter(text, Math.max(1, Math.ceil(letterCount * 0.35)));
+}
+
+// Split text at its `focalIndex`-th letter (1-based), skipping punctuation and spaces
+function splitAtLetter(word: string, focalIndex: number): WordParts {
+  const cleanWord = stripNonLetters(word);
+  
+  // If no letters found, just return the word as-is
+  if (cleanWord.length === 0) {
+    return {
+      before: word.slice(0, Math.floor(word.length / 2)),
+      focal: word[Math.floor(word.length / 2)] || '',
+      after: word.slice(Math.floor(word.length / 2) + 1),
+    };
+  }
+  
+  // Find the actual position in the original word (accounting for punctuation)
+  let charCount = 0;
+  let focalPos = -1;
+  const letterPositions: number[] = []; // Track all letter positions
+  
+  // Walk code points rather than UTF-16 units so letters outside the BMP stay whole
+  let i = 0;
+  for (const char of word) {
+    if (LETTER_PATTERN.test(char)) {
+      letterPositions.push(i);
+      charCount++;
+      if (charCount === focalIndex) {
+        focalPos = i;
+      }
+    }
+    i += char.length;
+  }
+  
+  // Fallback: use first letter if calculation failed
+  if (focalPos === -1) {
+    focalPos = letterPositions[0] ?? 0;
+  }
+
+  // The focal letter keeps its combining marks (accents, vowel signs) with it
+  let focalEnd = focalPos + ((word.codePointAt(focalPos) ?? 0) > 0xffff ? 2 : 1);
+  while (focalEnd < word.length && MARK_PATTERN.test(word[focalEnd])) {
+    focalEnd++;
+  }
+  
+  // Simply split the word at the focal position, preserving original capitalization
+  return {
+    before: word.slice(0, focalPos),
+    focal: word.slice(focalPos, focalEnd),
+    after: word.slice(focalEnd),
+  };
+}
+
+// Zero-width joiners keep Arabic letters in their connected forms on both sides of the split
+function joinArabicParts(parts: WordParts): WordParts {
+  const joiner = '\u200D';
+  return {
+    before: parts.before && parts.before + joiner,
+    focal: (parts.before ? joiner : '') + parts.focal + (parts.after ? joiner : ''),
+    after: parts.after && joiner + parts.after,
+  };
+}
+
+// Parts to render for the text on screen, with joiners added for Arabic
+export function getDisplayParts(text: string): WordParts {
+  if (!text) return { before: '', focal: '', after: '' };
+  const parts = splitChunk(text);
+  return getScript(text) === 'arabic' ? joinArabicParts(parts) : parts;
+}
@@ -0,0 +1,57 @@
+import type { ReaderDocument } from '@/lib/document';
+import { stripNonLetters } from '@/lib/script';
+import { isRareWord } from '@/lib/timing';
+
+// Warm-up: playback starts at a fraction of the target speed and reaches it after `words` words
+export interface SpeedRamp {
+  words: number;
+  startFraction: number;
+}
+
+export const DEFAULT_RAMP_START = 0.6;
+
+// Auto-pace never slows a sentence below this share of the target speed
+const MAX_SLOWDOWN = 1.5;
+
+// Words of this many letters or more count as long
+const LONG_WORD_LETTERS = 9;
+
+// Sentences longer than this get slower for each extra word
+const LONG_SENTENCE_WORDS = 25;
+
+// Speed factor (0–1] for the `wordsIn`-th word since playback started
+export function getRampFactor(ramp: SpeedRamp | null, wordsIn: number): number {
+  if (!ramp || ramp.words <= 0 || wordsIn >= ramp.words) return 1;
+  return ramp.startFraction + (1 - ramp.startFraction) * (Math.max(0, wordsIn) / ramp.words);
+}
+
+// How hard a run of tokens reads, from its share of long and rare words and its length
+function scoreSentence(doc: ReaderDocument, start: number, end: number): number {
+  const words = end - start + 1;
+  let long = 0;
+  let rare = 0;
+  for (let i = start; i <= end; i++) {
+    const text = doc.tokens[i].text;
+    if (Array.from(stripNonLetters(text)).length >= LONG_WORD_LETTERS) long++;
+    if (isRareWord(text)) rare++;
+  }
+  return (long / words) * 0.8 + (rare / words) * 0.5 + Math.max(0, words - LONG_SENTENCE_WORDS) * 0.01;
+}
+
+const difficultyCache = new WeakMap<ReaderDocument, number[]>();
+
+// Slowdown for each sentence (1 = normal speed). Sentences are compared with the document's own
+// average, so only the passages that are harder than the rest of the text slow down.
+export function getSentenceDifficulty(doc: ReaderDocument): number[] {
+  const cached = difficultyCache.get(doc);
+  if (cached) return cached;
+
+  const scores = doc.sentenceStarts.map((start, i) => {
+    const end = (doc.sentenceStarts[i + 1] ?? doc.tokens.length) - 1;
+    return scoreSentence(doc, start, end);
+  });
+  const average = scores.reduce((total, score) => total + score, 0) / (scores.length || 1);
+  const difficulty = scores.map((score) => Math.min(MAX_SLOWDOWN, 1 + Math.max(0, score - average)));
+  difficultyCache.set(doc, difficulty);
+  return difficulty;
+}
@@ -0,0 +1,115 @@
+import { getEffectiveWpm, type Pacer, type ReaderState } from '@/lib/reader/engine';
+
+// Roughly how many words a minute speech synthesis reads at rate 1
+const SPEECH_WPM_AT_RATE_1 = 180;
+
+// Most voices garble or ignore rates outside this range
+const MIN_RATE = 0.5;
+const MAX_RATE = 4;
+
+// Reading speeds narration can keep up with; the speed slider is held to these while reading aloud
+export const MIN_SPEECH_WPM = SPEECH_WPM_AT_RATE_1 * MIN_RATE;
+export const MAX_SPEECH_WPM = SPEECH_WPM_AT_RATE_1 * MAX_RATE;
+
+const EMPTY_VOICES: SpeechSynthesisVoice[] = [];
+let cachedVoices = EMPTY_VOICES;
+
+function hasSpeechSynthesis(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+// Installed voices. Returns the same array until the list changes, for useSyncExternalStore
+// (some browsers return a fresh array from every getVoices call).
+export function getVoices(): SpeechSynthesisVoice[] {
+  if (!hasSpeechSynthesis()) return EMPTY_VOICES;
+  const voices = speechSynthesis.getVoices();
+  const changed = voices.length !== cachedVoices.length
+    || voices.some((voice, i) => voice.voiceURI !== cachedVoices[i].voiceURI);
+  if (changed) cachedVoices = voices.length > 0 ? voices : EMPTY_VOICES;
+  return cachedVoices;
+}
+
+export function getServerVoices(): SpeechSynthesisVoice[] {
+  return EMPTY_VOICES;
+}
+
+// Voices load asynchronously in Chrome; notify when they arrive or change
+export function subscribeToVoices(onChange: () => void): () => void {
+  if (!hasSpeechSynthesis()) return () => {};
+  speechSynthesis.addEventListener('voiceschanged', onChange);
+  return () => speechSynthesis.removeEventListener('voiceschanged', onChange);
+}
+
+// Speech rate for a reading speed, so narration follows the WPM slider
+export function getSpeechRate(wpm: number): number {
+  return Math.max(MIN_RATE, Math.min(MAX_RATE, wpm / SPEECH_WPM_AT_RATE_1));
+}
+
+export interface SpeechPacerOptions {
+  voice: SpeechSynthesisVoice | null; // null for the browser's default voice
+  pitch: number; // 0–2, 1 is the voice's normal pitch
+  onError: (message: string) => void; // speech failed; the caller should fall back to silent timing
+}
+
+// Reads the text aloud one sentence at a time and moves the reader on each word-boundary
+// event, so the display follows the voice rather than a timer. Sentence-sized utterances
+// keep seeking responsive and avoid browsers cutting off long utterances.
+export class SpeechPacer implements Pacer {
+  private generation = 0; // bumped on every start and stop, so events from cancelled speech are ignored
+
+  constructor(private readonly options: SpeechPacerOptions) {}
+
+  start(state: ReaderState, advanceTo: (index: number) => void, finish: () => void): void {
+    const generation = ++this.generation;
+    const { doc } = state;
+    const { tokens } = doc;
+    speechSynthesis.cancel();
+
+    const speakFrom = (first: number) => {
+      let last = first;
+      while (last + 1 < tokens.length && tokens[last + 1].sentence === tokens[first].sentence) last++;
+
+      const offset = tokens[first].start;
+      const utterance = new SpeechSynthesisUtterance(doc.text.slice(offset, tokens[last].end));
+      if (this.options.voice) {
+        utterance.voice = this.options.voice;
+        utterance.lang = this.options.voice.lang;
+      }
+      utterance.pitch = this.options.pitch;
+      utterance.rate = getSpeechRate(getEffectiveWpm(state, first)); // Warm-up and auto-pace apply per sentence
+
+      let spoken = first;
+      utterance.onboundary = (e) => {
+        if (generation !== this.generation || e.name !== 'word') return;
+        const position = offset + e.charIndex;
+        while (spoken < last && tokens[spoken + 1].start <= position) spoken++;
+        advanceTo(spoken);
+      };
+      utterance.onend = () => {
+        if (generation !== this.generation) return;
+        if (last >= tokens.length - 1) {
+          finish();
+        } else {
+          advanceTo(last + 1);
+          speakFrom(last + 1);
+        }
+      };
+      utterance.onerror = (e) => {
+        // Cancelling for a pause or seek reports an error too; only real failures matter
+        if (generation !== this.generation || e.error === 'interrupted' || e.error === 'canceled') return;
+        this.stop();
+        this.options.onError(e.error === 'not-allowed'
+          ? 'The browser blocked speech. Click the page and try again.'
+          : 'Speech stopped unexpectedly, so reading continues silently.');
+      };
+      speechSynthesis.speak(utterance);
+    };
+
+    speakFrom(state.chunk.start);
+  }
+
+  stop(): void {
+    this.generation++;
+    speechSynthesis.cancel();
+  }
+}
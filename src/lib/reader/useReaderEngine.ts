@@ -0,0 +1,15 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { ReaderEngine, type ReaderOptions, type ReaderState } from '@/lib/reader/engine';
+
+// One ReaderEngine for the lifetime of the component, with its state as React state
+export function useReaderEngine(options?: ReaderOptions): [ReaderEngine, ReaderState] {
+  const [engine] = useState(() => new ReaderEngine(options));
+  const subscribe = useCallback((onChange: () => void) => engine.on('change', onChange), [engine]);
+  const getState = useCallback(() => engine.getState(), [engine]);
+  const state = useSyncExternalStore(subscribe, getState, getState);
+
+  // Stop playback when the component goes away
+  useEffect(() => () => engine.dispose(), [engine]);
+
+  return [engine, state];
+}
@@ -0,0 +1,63 @@
+// Writing systems that need their own focal-point or layout rules
+export type Script = 'alphabetic' | 'cjk' | 'southeast-asian' | 'arabic' | 'hebrew';
+
+// Letters and digits in any script
+export const LETTER_PATTERN = /[\p{L}\p{N}]/u;
+
+// Combining marks (accents, vowel signs) that belong to the letter before them
+export const MARK_PATTERN = /\p{M}/u;
+
+// Scripts written without spaces between words, which need a segmenter to find word boundaries
+const UNSPACED_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u],
+  ['southeast-asian', /[\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+];
+
+// Remove everything but letters and digits, in any script
+export function stripNonLetters(word: string): string {
+  return word.replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+// Script of the first letter in the word; Latin, Cyrillic, Greek and the rest count as alphabetic
+export function getScript(word: string): Script {
+  const letter = Array.from(word).find((char) => LETTER_PATTERN.test(char));
+  if (!letter) return 'alphabetic';
+  return SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(letter))?.[0] ?? 'alphabetic';
+}
+
+export function isRtl(word: string): boolean {
+  const script = getScript(word);
+  return script === 'arabic' || script === 'hebrew';
+}
+
+export function needsSegmentation(text: string): boolean {
+  return UNSPACED_PATTERN.test(text);
+}
+
+const wordSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'word' })
+  : null;
+
+// Split a run of text without spaces (Chinese, Japanese, Thai…) into words, as [start, end) offsets
+// within the run. Punctuation sticks to the word before it. Without Intl.Segmenter the run stays whole.
+export function segmentWords(run: string): [number, number][] {
+  if (!wordSegmenter || !needsSegmentation(run)) return [[0, run.length]];
+
+  const words: [number, number][] = [];
+  for (const segment of wordSegmenter.segment(run)) {
+    const end = segment.index + segment.segment.length;
+    const previous = words[words.length - 1];
+    // Punctuation joins the previous word; a word joins leading punctuation that has no word yet
+    const previousHasLetters = previous !== undefined && LETTER_PATTERN.test(run.slice(previous[0], previous[1]));
+    if (previous && (!segment.isWordLike || !previousHasLetters)) {
+      previous[1] = end;
+    } else {
+      words.push([segment.index, end]);
+    }
+  }
+  return words;
+}
@@ -0,0 +1,152 @@
+import { createLocalStore } from '@/lib/storage';
+import { TIMING_PRESETS, type TimingPresetId, type TimingProfile } from '@/lib/timing';
+
+export type FontFamilyId = 'mono' | 'sans' | 'serif';
+export type FontSizeId = 'small' | 'medium' | 'large' | 'xlarge';
+export type ThemeId = 'standard' | 'highContrast' | 'dyslexia';
+
+// Timing profile fields for the pauses after punctuation, which the settings can override
+export type PauseField = 'sentencePause' | 'clausePause' | 'commaPause' | 'paragraphPause';
+
+// Display and control preferences, saved in localStorage
+export interface ReaderSettings {
+  theme: ThemeId;
+  fontFamily: FontFamilyId;
+  fontSize: FontSizeId;
+  focalColor: string | null; // hex colour of the focal letter; null for the theme's colour
+  showGuides: boolean; // lines marking the focal point
+  countdownSeconds: number; // before playback starts; 0 starts straight away
+  minWpm: number;
+  maxWpm: number;
+  wpmStep: number; // slider step and arrow-key change
+  pauses: Partial<Record<PauseField, number>>; // overrides for the pacing preset's punctuation pauses
+}
+
+export const FONT_FAMILIES: Record<FontFamilyId, { label: string; className: string }> = {
+  mono: { label: 'Monospace', className: 'font-mono' },
+  sans: { label: 'Sans-serif', className: 'font-sans' },
+  serif: { label: 'Serif', className: 'font-serif' },
+};
+
+// Type sizes for a single word and for multi-word chunks
+export const FONT_SIZES: Record<FontSizeId, { label: string; single: string; compact: string }> = {
+  small: {
+    label: 'Small',
+    single: 'text-4xl sm:text-5xl md:text-6xl lg:text-7xl',
+    compact: 'text-2xl sm:text-3xl md:text-4xl lg:text-5xl',
+  },
+  medium: {
+    label: 'Medium',
+    single: 'text-5xl sm:text-6xl md:text-7xl lg:text-8xl',
+    compact: 'text-3xl sm:text-4xl md:text-5xl lg:text-6xl',
+  },
+  large: {
+    label: 'Large',
+    single: 'text-6xl sm:text-7xl md:text-8xl lg:text-9xl',
+    compact: 'text-4xl sm:text-5xl md:text-6xl lg:text-7xl',
+  },
+  xlarge: {
+    label: 'Extra large',
+    single: 'text-7xl sm:text-8xl md:text-9xl lg:text-[10rem]',
+    compact: 'text-5xl sm:text-6xl md:text-7xl lg:text-8xl',
+  },
+};
+
+// Colours and type for the reader. Classes are applied to the reader's background, the letters
+// either side of the focal one, and the focal letter unless a custom colour is set.
+export const THEMES: Record<ThemeId, { label: string; background: string; text: string; focal: string; font: string | null }> = {
+  standard: {
+    label: 'Standard',
+    background: '',
+    text: 'text-zinc-900 dark:text-zinc-50 opacity-70',
+    focal: 'text-red-600 dark:text-red-500',
+    font: null,
+  },
+  // Pure black and white with no dimming
+  highContrast: {
+    label: 'High contrast',
+    background: 'bg-white dark:bg-black',
+    text: 'text-black dark:text-white',
+    focal: 'text-red-700 dark:text-yellow-300',
+    font: null,
+  },
+  // Lexend on a cream background, with wider letter spacing and softer contrast
+  dyslexia: {
+    label: 'Dyslexia friendly',
+    background: 'bg-amber-50 dark:bg-zinc-900',
+    text: 'text-zinc-800 dark:text-zinc-200 tracking-wide',
+    focal: 'text-blue-700 dark:text-sky-300',
+    font: 'font-readable',
+  },
+};
+
+export const PAUSE_FIELDS: Record<PauseField, string> = {
+  sentencePause: 'Sentence end',
+  clausePause: 'Semicolon or colon',
+  commaPause: 'Comma',
+  paragraphPause: 'Paragraph break',
+};
+
+// Bounds for the WPM range, so the slider always has room to move
+export const WPM_LIMIT_MIN = 50;
+export const WPM_LIMIT_MAX = 2000;
+
+export const DEFAULT_SETTINGS: ReaderSettings = {
+  theme: 'standard',
+  fontFamily: 'mono',
+  fontSize: 'medium',
+  focalColor: null,
+  showGuides: true,
+  countdownSeconds: 3,
+  minWpm: 100,
+  maxWpm: 1000,
+  wpmStep: 50,
+  pauses: {},
+};
+
+const SETTINGS_KEY = 'zoomerdigest:settings';
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+}
+
+// Fill in missing fields and pull out-of-range values back in, so settings saved by an
+// older version (or edited by hand) can't break the reader
+function normalizeSettings(saved: Partial<ReaderSettings>): ReaderSettings {
+  const minWpm = clamp(saved.minWpm, WPM_LIMIT_MIN, WPM_LIMIT_MAX - 50, DEFAULT_SETTINGS.minWpm);
+  const pauses: Partial<Record<PauseField, number>> = {};
+  for (const field of Object.keys(PAUSE_FIELDS) as PauseField[]) {
+    const value = saved.pauses?.[field];
+    if (value !== undefined) pauses[field] = clamp(value, 1, 5, 1);
+  }
+  return {
+    theme: saved.theme && saved.theme in THEMES ? saved.theme : DEFAULT_SETTINGS.theme,
+    fontFamily: saved.fontFamily && saved.fontFamily in FONT_FAMILIES ? saved.fontFamily : DEFAULT_SETTINGS.fontFamily,
+    fontSize: saved.fontSize && saved.fontSize in FONT_SIZES ? saved.fontSize : DEFAULT_SETTINGS.fontSize,
+    focalColor: typeof saved.focalColor === 'string' && /^#[\da-f]{6}$/i.test(saved.focalColor) ? saved.focalColor : null,
+    showGuides: saved.showGuides ?? DEFAULT_SETTINGS.showGuides,
+    countdownSeconds: Math.round(clamp(saved.countdownSeconds, 0, 10, DEFAULT_SETTINGS.countdownSeconds)),
+    minWpm,
+    maxWpm: clamp(saved.maxWpm, minWpm + 50, WPM_LIMIT_MAX, Math.max(minWpm + 50, DEFAULT_SETTINGS.maxWpm)),
+    wpmStep: clamp(saved.wpmStep, 5, 200, DEFAULT_SETTINGS.wpmStep),
+    pauses,
+  };
+}
+
+const settingsStore = createLocalStore(SETTINGS_KEY, DEFAULT_SETTINGS, (saved) => normalizeSettings(saved as Partial<ReaderSettings>));
+
+// Saved settings, for useSyncExternalStore; they change in this tab or another one
+export const loadSettings = settingsStore.load;
+export const getServerSettings = settingsStore.getServer;
+export const subscribeToSettings = settingsStore.subscribe;
+export const resetSettings = settingsStore.clear;
+
+// Change some settings, keeping the rest
+export function updateSettings(changes: Partial<ReaderSettings>): void {
+  settingsStore.save(normalizeSettings({ ...loadSettings(), ...changes }));
+}
+
+// The pacing preset's timing profile with the user's pause overrides applied
+export function getTimingProfile(preset: TimingPresetId, pauses: ReaderSettings['pauses']): TimingProfile {
+  return { ...TIMING_PRESETS[preset].profile, ...pauses };
+}
@@ -0,0 +1,127 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+
+// Share links keep everything in the URL fragment, so the text never reaches a server:
+//   #v=1&text=<deflated, base64url>&title=…&word=120&wpm=400   (carries the text itself)
+//   #v=1&doc=<library id>&word=120&wpm=400                     (a document in this browser's library)
+
+const LINK_VERSION = '1';
+
+// Longer links get cut off by chat apps and some browsers
+const MAX_FRAGMENT_LENGTH = 16000;
+
+export type ShareSource =
+  | { kind: 'text'; text: string; title: string }
+  | { kind: 'document'; documentId: string };
+
+export interface ShareLink {
+  source: ShareSource;
+  word: number; // token index to start from
+  wpm: number | null; // null keeps the reader's current speed
+}
+
+// Raised when a link can't be built (too long) or can't be read (truncated or edited)
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so long texts don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): Uint8Array {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// URL (on the current page) that opens `link`. Throws ShareLinkError if the text is too long for a link.
+export function buildShareLink(link: ShareLink, base: string): string {
+  const params = new URLSearchParams({ v: LINK_VERSION });
+  if (link.source.kind === 'text') {
+    params.set('text', toBase64Url(deflateSync(strToU8(link.source.text), { level: 9 })));
+    params.set('title', link.source.title);
+  } else {
+    params.set('doc', link.source.documentId);
+  }
+  params.set('word', String(link.word));
+  if (link.wpm !== null) params.set('wpm', String(link.wpm));
+
+  const fragment = params.toString();
+  if (fragment.length > MAX_FRAGMENT_LENGTH) {
+    const sizeKb = Math.ceil(fragment.length / 1000);
+    throw new ShareLinkError(`This text is too long to share as a link (${sizeKb} KB compressed, the limit is ${MAX_FRAGMENT_LENGTH / 1000} KB).`);
+  }
+  return `${base.split('#')[0]}#${fragment}`;
+}
+
+// Read a share link from a URL fragment. Returns null if the fragment isn't a share link at all,
+// and throws ShareLinkError if it is one but can't be read.
+export function parseShareLink(hash: string): ShareLink | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encodedText = params.get('text');
+  const documentId = params.get('doc');
+  if (encodedText === null && documentId === null) return null;
+
+  if (params.get('v') !== LINK_VERSION) {
+    throw new ShareLinkError('This link was made by a different version of the reader and can\'t be opened.');
+  }
+
+  const word = Number(params.get('word') ?? 0);
+  const wpm = params.has('wpm') ? Number(params.get('wpm')) : null;
+  if (!Number.isInteger(word) || word < 0 || (wpm !== null && !(wpm > 0))) {
+    throw new ShareLinkError('This link is damaged: its position or speed is invalid.');
+  }
+
+  if (documentId !== null) {
+    return { source: { kind: 'document', documentId }, word, wpm };
+  }
+
+  let text: string;
+  try {
+    text = strFromU8(inflateSync(fromBase64Url(encodedText ?? '')));
+  } catch {
+    throw new ShareLinkError('This link is damaged or incomplete. Ask for it to be sent again in full.');
+  }
+  if (!text.trim()) throw new ShareLinkError('This link doesn\'t contain any text.');
+  return { source: { kind: 'text', text, title: params.get('title') ?? '' }, word, wpm };
+}
+
+// Remove a share link from the address bar once it's been opened, so a refresh doesn't restart it
+export function clearShareLink(): void {
+  history.replaceState(null, '', window.location.pathname + window.location.search);
+}
+
+// Content shared to the installed app from another app. The manifest's share target sends it
+// to the reader as ?title=…&text=…&url=…
+export type SharedContent =
+  | { kind: 'text'; text: string; title: string | null }
+  | { kind: 'url'; url: string; title: string | null };
+
+// Shared text shorter than this is a caption for the link that came with it
+const MIN_SHARED_WORDS = 20;
+
+const URL_PATTERN = /https?:\/\/\S+/;
+
+// What was shared, or null if the page wasn't opened from a share. Apps disagree on where the
+// link goes, so a link inside the text counts too.
+export function parseShareTarget(search: string): SharedContent | null {
+  const params = new URLSearchParams(search);
+  const title = params.get('title')?.trim() || null;
+  const text = params.get('text')?.trim() ?? '';
+  const url = params.get('url')?.trim() || URL_PATTERN.exec(text)?.[0] || null;
+  const words = text.replace(URL_PATTERN, '').split(/\s+/).filter(Boolean).length;
+  if (url && words < MIN_SHARED_WORDS) return { kind: 'url', url, title };
+  return text ? { kind: 'text', text, title } : null;
+}
+
+// Remove the shared content from the address bar, so a refresh doesn't open it again
+export function clearShareTarget(): void {
+  history.replaceState(null, '', window.location.pathname + window.location.hash);
+}
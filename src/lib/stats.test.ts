@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { SessionTracker } from '@/lib/stats';
+
+describe('SessionTracker', () => {
+  it('averages the words read over the time spent playing, leaving out pauses', () => {
+    const tracker = new SessionTracker('doc', 0);
+    tracker.play(0, 300);
+    tracker.advance(100);
+    tracker.pause(20_000);
+    tracker.play(50_000, 600);
+    tracker.advance(100);
+    // 200 words in 40 s of playing, while the speed setting ended at 600
+    expect(tracker.getAverageWpm(70_000)).toBe(300);
+    expect(tracker.finish(70_000)).toMatchObject({ wordsRead: 200, activeMs: 40_000, averageWpm: 300, peakWpm: 600, pauses: 1 });
+  });
+
+  it('has no average before anything is read', () => {
+    const tracker = new SessionTracker(null, 0);
+    expect(tracker.getAverageWpm(1000)).toBeNull();
+    tracker.play(0, 300);
+    expect(tracker.getAverageWpm(1000)).toBeNull();
+  });
+
+  it('drops sessions too short to count', () => {
+    const tracker = new SessionTracker(null, 0);
+    tracker.play(0, 300);
+    tracker.advance(2);
+    expect(tracker.finish(1000)).toBeNull();
+  });
+});
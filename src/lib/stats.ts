@@ -0,0 +1,169 @@
+import { createLocalStore } from '@/lib/storage';
+
+// One stretch of reading, from first play until the reader is closed or the text ends
+export interface ReadingSession {
+  id: string;
+  documentId: string | null;
+  startedAt: number;
+  endedAt: number;
+  wordsRead: number; // words shown by playback (skipping ahead doesn't count)
+  activeMs: number; // time spent playing, excluding pauses
+  averageWpm: number; // words read per minute of active time
+  peakWpm: number; // highest speed setting used while playing
+  pauses: number;
+  rewinds: number;
+}
+
+const SESSIONS_KEY = 'zoomerdigest:sessions';
+const MAX_SESSIONS = 1000;
+const EMPTY_SESSIONS: ReadingSession[] = [];
+
+// Sessions shorter than this are accidental taps, not reading
+const MIN_WORDS_PER_SESSION = 5;
+
+function getWordsPerMinute(words: number, ms: number): number {
+  return Math.round(words / (ms / 60000));
+}
+
+// Accumulates a session as playback starts, stops and advances
+export class SessionTracker {
+  private readonly startedAt: number;
+  private playingSince: number | null = null;
+  private activeMs = 0;
+  private wordsRead = 0;
+  private peakWpm = 0;
+  private pauses = 0;
+  private rewinds = 0;
+
+  constructor(private readonly documentId: string | null, now: number) {
+    this.startedAt = now;
+  }
+
+  play(now: number, wpm: number): void {
+    if (this.playingSince !== null) return;
+    this.playingSince = now;
+    this.peakWpm = Math.max(this.peakWpm, wpm);
+  }
+
+  pause(now: number): void {
+    if (this.playingSince === null) return;
+    this.activeMs += now - this.playingSince;
+    this.playingSince = null;
+    this.pauses++;
+  }
+
+  setSpeed(wpm: number): void {
+    if (this.playingSince !== null) this.peakWpm = Math.max(this.peakWpm, wpm);
+  }
+
+  advance(words: number): void {
+    this.wordsRead += words;
+  }
+
+  rewind(): void {
+    this.rewinds++;
+  }
+
+  // Speed the words so far were actually read at, warm-up and slow-downs included; null
+  // before anything has been read
+  getAverageWpm(now: number): number | null {
+    const activeMs = this.activeMs + (this.playingSince !== null ? now - this.playingSince : 0);
+    return this.wordsRead > 0 && activeMs > 0 ? getWordsPerMinute(this.wordsRead, activeMs) : null;
+  }
+
+  // Close the session; returns null if too little was read to be worth keeping
+  finish(now: number): ReadingSession | null {
+    if (this.playingSince !== null) {
+      this.activeMs += now - this.playingSince;
+      this.playingSince = null;
+    } else if (this.pauses > 0) {
+      this.pauses--; // The final stop ends the session rather than pausing it
+    }
+    if (this.wordsRead < MIN_WORDS_PER_SESSION || this.activeMs <= 0) return null;
+
+    return {
+      id: crypto.randomUUID(),
+      documentId: this.documentId,
+      startedAt: this.startedAt,
+      endedAt: now,
+      wordsRead: this.wordsRead,
+      activeMs: this.activeMs,
+      averageWpm: getWordsPerMinute(this.wordsRead, this.activeMs),
+      peakWpm: this.peakWpm,
+      pauses: this.pauses,
+      rewinds: this.rewinds,
+    };
+  }
+}
+
+const sessionStore = createLocalStore(SESSIONS_KEY, EMPTY_SESSIONS);
+
+// Saved sessions, oldest first, for useSyncExternalStore
+export const loadSessions = sessionStore.load;
+export const getServerSessions = sessionStore.getServer;
+export const subscribeToSessions = sessionStore.subscribe;
+export const clearSessions = sessionStore.clear;
+
+export function saveSession(session: ReadingSession): void {
+  sessionStore.save([...loadSessions(), session].slice(-MAX_SESSIONS));
+}
+
+// Local calendar date as YYYY-MM-DD
+export function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Words read on each of the last `days` days, oldest first, including days with no reading
+export function getDailyWords(sessions: ReadingSession[], days: number, now: number): { date: string; words: number }[] {
+  const totals = new Map<string, number>();
+  for (const session of sessions) {
+    const key = toDateKey(session.startedAt);
+    totals.set(key, (totals.get(key) ?? 0) + session.wordsRead);
+  }
+
+  const result: { date: string; words: number }[] = [];
+  const day = new Date(now);
+  day.setHours(12, 0, 0, 0); // Midday keeps daylight-saving shifts from skipping or repeating a date
+  day.setDate(day.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    const key = toDateKey(day.getTime());
+    result.push({ date: key, words: totals.get(key) ?? 0 });
+    day.setDate(day.getDate() + 1);
+  }
+  return result;
+}
+
+// Consecutive days with at least one session. The current streak still counts
+// if today has no reading yet but yesterday did.
+export function getStreaks(sessions: ReadingSession[], now: number): { current: number; longest: number } {
+  const readDays = new Set(sessions.map((session) => toDateKey(session.startedAt)));
+  const day = new Date(now);
+  day.setHours(12, 0, 0, 0);
+
+  const previousDay = (date: Date) => {
+    date.setDate(date.getDate() - 1);
+    return date;
+  };
+
+  if (!readDays.has(toDateKey(day.getTime()))) previousDay(day);
+  let current = 0;
+  while (readDays.has(toDateKey(day.getTime()))) {
+    current++;
+    previousDay(day);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const key of Array.from(readDays).sort()) {
+    const time = new Date(`${key}T12:00:00`).getTime();
+    run = previous !== null && Math.round((time - previous) / 86400000) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  }
+
+  return { current, longest: Math.max(longest, current) };
+}
@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLocalStore } from '@/lib/storage';
+
+const KEY = 'zoomerdigest:test';
+const EMPTY: number[] = [];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+describe('createLocalStore', () => {
+  it('returns the same value until the stored string changes', () => {
+    const store = createLocalStore(KEY, EMPTY);
+    expect(store.load()).toBe(EMPTY);
+    store.save([1, 2]);
+    const saved = store.load();
+    expect(saved).toEqual([1, 2]);
+    expect(store.load()).toBe(saved);
+    store.clear();
+    expect(store.load()).toBe(EMPTY);
+  });
+
+  it('normalizes what it reads', () => {
+    localStorage.setItem(KEY, '[3, "x", 4]');
+    const store = createLocalStore(KEY, EMPTY, (saved) => (saved as unknown[]).filter((item) => typeof item === 'number'));
+    expect(store.load()).toEqual([3, 4]);
+  });
+
+  it('falls back to the empty value for unreadable JSON', () => {
+    localStorage.setItem(KEY, '{not json');
+    expect(createLocalStore(KEY, EMPTY).load()).toBe(EMPTY);
+  });
+
+  it('falls back to the empty value when storage is off limits', () => {
+    vi.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+      throw new DOMException('Access is denied', 'SecurityError');
+    });
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Access is denied', 'SecurityError');
+    });
+    const store = createLocalStore(KEY, EMPTY);
+    expect(store.load()).toBe(EMPTY);
+    expect(() => store.save([1])).not.toThrow();
+  });
+
+  it('tells subscribers about saves in this tab and in others', () => {
+    const store = createLocalStore(KEY, EMPTY);
+    const onChange = vi.fn();
+    const unsubscribe = store.subscribe(onChange);
+    store.save([1]);
+    window.dispatchEvent(new StorageEvent('storage', { key: KEY }));
+    window.dispatchEvent(new StorageEvent('storage', { key: 'zoomerdigest:other' }));
+    expect(onChange).toHaveBeenCalledTimes(2);
+    unsubscribe();
+    store.clear();
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+});
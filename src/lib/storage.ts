@@ -0,0 +1,63 @@
+// A value kept as JSON in localStorage, in the shape useSyncExternalStore wants: `load` returns
+// the same value until the stored string changes, and `subscribe` hears about saves from this
+// tab and from others. Storage that can't be read (unreadable JSON, or storage that's off
+// limits as in some third-party iframes) gives `empty`, and saves to it are dropped.
+export interface LocalStore<T> {
+  load: () => T;
+  getServer: () => T;
+  subscribe: (onChange: () => void) => () => void;
+  save: (value: T) => void;
+  clear: () => void;
+}
+
+// `normalize` shapes what was parsed from storage into a valid value, e.g. filling in defaults
+export function createLocalStore<T>(key: string, empty: T, normalize: (saved: unknown) => T = (saved) => saved as T): LocalStore<T> {
+  const listeners = new Set<() => void>();
+  let cachedRaw: string | null = null;
+  let cachedValue = empty;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    load: () => {
+      try {
+        const raw = localStorage.getItem(key);
+        if (raw !== cachedRaw) {
+          cachedRaw = raw;
+          cachedValue = raw ? normalize(JSON.parse(raw)) : empty;
+        }
+      } catch {
+        cachedValue = empty;
+      }
+      return cachedValue;
+    },
+    getServer: () => empty,
+    subscribe: (onChange) => {
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key === key) onChange();
+      };
+      listeners.add(onChange);
+      window.addEventListener('storage', handleStorage);
+      return () => {
+        listeners.delete(onChange);
+        window.removeEventListener('storage', handleStorage);
+      };
+    },
+    save: (value) => {
+      try {
+        localStorage.setItem(key, JSON.stringify(value));
+      } catch {
+        return;
+      }
+      notify();
+    },
+    clear: () => {
+      try {
+        localStorage.removeItem(key);
+      } catch {
+        return;
+      }
+      notify();
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import { getSourceText, type ReaderDocument } from '@/lib/document';
+import { getSentenceRange } from '@/lib/marks';
+import { createLocalStore } from '@/lib/storage';
+
+// What gave a sentence away as hard to follow
+export type HardReason = 'rewind' | 'pause' | 'slowdown';
+
+// A sentence marked as hard in study mode, with when it's next up for a re-read
+export interface HardPassage {
+  id: string;
+  documentId: string;
+  start: number; // first token of the sentence
+  end: number; // last token
+  text: string; // the sentence, so reviews don't need the document
+  reasons: HardReason[];
+  stage: number; // reviews passed in a row; picks the interval before the next one
+  due: number; // start of the day it's next up for review
+  createdAt: number;
+}
+
+export const HARD_REASONS: Record<HardReason, string> = {
+  rewind: 'went back to it',
+  pause: 'stopped on it',
+  slowdown: 'slowed down for it',
+};
+
+// Days until the next re-read after each review that went well. Passing the last one retires
+// the passage.
+const REVIEW_INTERVALS = [1, 3, 7, 14, 30];
+
+// Most passages re-read in one sitting, so reviews stay short
+export const REVIEW_SESSION_SIZE = 10;
+
+// Stops shorter than this are fumbles, and much longer ones mean the reader walked away
+const MIN_PAUSE_MS = 2000;
+const MAX_PAUSE_MS = 2 * 60 * 1000;
+
+// Going back further than this is starting over, not re-reading a sentence
+const MAX_REWIND_WORDS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STUDY_KEY = 'zoomerdigest:study';
+const EMPTY_PASSAGES: HardPassage[] = [];
+
+// Watches playback for signs that a sentence was hard going. Each method returns the token
+// that turned out to be hard, or null.
+export class DifficultyTracker {
+  private paused: { at: number; index: number } | null = null;
+
+  constructor(private wpm: number) {}
+
+  pause(now: number, index: number): void {
+    this.paused = { at: now, index };
+  }
+
+  // Playback starting again after a stop long enough to think over the sentence
+  resume(now: number): number | null {
+    const paused = this.paused;
+    this.paused = null;
+    if (!paused) return null;
+    const duration = now - paused.at;
+    return duration >= MIN_PAUSE_MS && duration <= MAX_PAUSE_MS ? paused.index : null;
+  }
+
+  // A jump back to re-read
+  seek(from: number, to: number): number | null {
+    return to < from && from - to <= MAX_REWIND_WORDS ? to : null;
+  }
+
+  // Turning the speed down mid-read
+  setSpeed(wpm: number, index: number, playing: boolean): number | null {
+    const slowedDown = playing && wpm < this.wpm;
+    this.wpm = wpm;
+    return slowedDown ? index : null;
+  }
+}
+
+function startOfDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Start of the day `days` days after `now`
+function daysFrom(now: number, days: number): number {
+  return startOfDay(now + days * DAY_MS);
+}
+
+const passageStore = createLocalStore(STUDY_KEY, EMPTY_PASSAGES);
+
+// Hard passages from every document, oldest first, for useSyncExternalStore; they change in
+// this tab or another one
+export const loadPassages = passageStore.load;
+export const getServerPassages = passageStore.getServer;
+export const subscribeToPassages = passageStore.subscribe;
+
+function savePassages(passages: HardPassage[]): void {
+  if (passages.length > 0) {
+    passageStore.save(passages);
+  } else {
+    passageStore.clear();
+  }
+}
+
+// Mark the sentence containing token `index` as hard. It's first re-read the next day; a
+// sentence that turns out hard again after passing reviews starts its schedule over.
+export function markHard(doc: ReaderDocument, documentId: string, index: number, reason: HardReason, now = Date.now()): void {
+  const [start, end] = getSentenceRange(doc, index);
+  const passages = loadPassages();
+  const existing = passages.find((passage) => passage.documentId === documentId && passage.start === start);
+  if (!existing) {
+    const text = getSourceText(doc, start, end).replace(/\s+/g, ' ');
+    savePassages([
+      ...passages,
+      { id: crypto.randomUUID(), documentId, start, end, text, reasons: [reason], stage: 0, due: daysFrom(now, 1), createdAt: now },
+    ]);
+    return;
+  }
+  if (existing.reasons.includes(reason) && existing.stage === 0) return;
+  savePassages(passages.map((passage) => (passage === existing
+    ? {
+        ...passage,
+        reasons: passage.reasons.includes(reason) ? passage.reasons : [...passage.reasons, reason],
+        stage: 0,
+        due: passage.stage === 0 ? passage.due : daysFrom(now, 1),
+      }
+    : passage)));
+}
+
+// Passages due for a re-read, the most overdue first
+export function getDuePassages(passages: HardPassage[], now = Date.now()): HardPassage[] {
+  return passages.filter((passage) => passage.due <= now).sort((a, b) => a.due - b.due);
+}
+
+// Record how a re-read went. A passage that's still hard comes back the next day; otherwise
+// the wait grows until it's retired.
+export function reviewPassage(id: string, stillHard: boolean, now = Date.now()): void {
+  const passages = loadPassages();
+  const passage = passages.find((candidate) => candidate.id === id);
+  if (!passage) return;
+  const stage = stillHard ? 0 : passage.stage + 1;
+  if (stage >= REVIEW_INTERVALS.length) {
+    savePassages(passages.filter((candidate) => candidate !== passage));
+    return;
+  }
+  const due = daysFrom(now, stillHard ? 1 : REVIEW_INTERVALS[stage]);
+  savePassages(passages.map((candidate) => (candidate === passage ? { ...passage, stage, due } : candidate)));
+}
+
+export function deletePassage(id: string): void {
+  savePassages(loadPassages().filter((passage) => passage.id !== id));
+}
+
+// Remove every passage from a document, e.g. when it's deleted from the library
+export function deleteDocumentPassages(documentId: string): void {
+  const passages = loadPassages();
+  if (passages.some((passage) => passage.documentId === documentId)) {
+    savePassages(passages.filter((passage) => passage.documentId !== documentId));
+  }
+}
+
+// Text for a review session: each passage as its own paragraph
+export function getReviewText(passages: HardPassage[]): string {
+  return passages.map((passage) => passage.text).join('\n\n');
+}
@@ -0,0 +1,115 @@
+import { endsSentence, isParagraphEnd, type ReaderDocument } from '@/lib/document';
+import { getScript, stripNonLetters } from '@/lib/script';
+
+// Tunable weights for how long each token stays on screen, as multipliers of the base WPM delay
+export interface TimingProfile {
+  sentencePause: number; // word ends with . ! ?
+  clausePause: number; // word ends with ; :
+  commaPause: number; // word ends with ,
+  paragraphPause: number; // last word of a paragraph (replaces the punctuation pause)
+  paragraphStart: number; // first word of a paragraph, while the eye finds its place again
+  lengthThreshold: number; // letters a word can have before it gets extra time
+  perExtraLetter: number; // added per letter beyond the threshold
+  shortWord: number; // words of three letters or fewer
+  rareWord: number; // words longer than three letters that aren't in the common word list
+  number: number; // tokens containing digits
+  acronym: number; // all-caps tokens such as "NASA" or "URLs"
+}
+
+export type TimingPresetId = 'uniform' | 'classic' | 'spritz' | 'comprehension';
+
+export const TIMING_PRESETS: Record<TimingPresetId, { label: string; description: string; profile: TimingProfile }> = {
+  uniform: {
+    label: 'Uniform',
+    description: 'Every word gets exactly the same time',
+    profile: {
+      sentencePause: 1, clausePause: 1, commaPause: 1, paragraphPause: 1, paragraphStart: 1,
+      lengthThreshold: Infinity, perExtraLetter: 0, shortWord: 1, rareWord: 1, number: 1, acronym: 1,
+    },
+  },
+  classic: {
+    label: 'Classic',
+    description: 'Pauses on punctuation and paragraph breaks only',
+    profile: {
+      sentencePause: 1.5, clausePause: 1.2, commaPause: 1.1, paragraphPause: 2.0, paragraphStart: 1,
+      lengthThreshold: Infinity, perExtraLetter: 0, shortWord: 1, rareWord: 1, number: 1, acronym: 1,
+    },
+  },
+  spritz: {
+    label: 'Spritz-like',
+    description: 'Long words linger, short words move faster',
+    profile: {
+      sentencePause: 1.5, clausePause: 1.2, commaPause: 1.1, paragraphPause: 2.0, paragraphStart: 1.1,
+      lengthThreshold: 7, perExtraLetter: 0.08, shortWord: 0.9, rareWord: 1.1, number: 1.3, acronym: 1.2,
+    },
+  },
+  comprehension: {
+    label: 'Comprehension',
+    description: 'Extra time for long, rare and technical words',
+    profile: {
+      sentencePause: 1.8, clausePause: 1.4, commaPause: 1.2, paragraphPause: 2.5, paragraphStart: 1.3,
+      lengthThreshold: 6, perExtraLetter: 0.12, shortWord: 1, rareWord: 1.25, number: 1.6, acronym: 1.4,
+    },
+  },
+};
+
+export const DEFAULT_TIMING_PRESET: TimingPresetId = 'spritz';
+
+// Most frequent English words; anything else longer than three letters counts as rare
+const COMMON_WORDS = new Set(`
+  the be to of and a in that have i it for not on with he as you do at this but his by from they we say her she or
+  an will my one all would there their what so up out if about who get which go me when make can like time no just
+  him know take people into year your good some could them see other than then now look only come its over think
+  also back after use two how our work first well way even new want because any these give day most us is was are
+  were been has had did said made very much more many such here where why before through down should still own
+  while last might great old little never same another around something long right thing those both each under
+  again place life found every home going world always away need house without nothing being small hand part
+  story night morning often until enough though really
+`.trim().split(/\s+/));
+
+// Calculate pause duration multiplier based on punctuation and paragraph breaks
+export function getPauseMultiplier(doc: ReaderDocument, index: number, profile: TimingProfile): number {
+  const word = doc.tokens[index].text;
+  if (isParagraphEnd(doc, index)) return profile.paragraphPause; // Paragraph break - longest pause
+  if (endsSentence(word)) return profile.sentencePause; // Sentence end - longer pause
+  if (/[;:；：]$/.test(word)) return profile.clausePause; // Clause separator - medium pause
+  if (/[,，、،]$/.test(word)) return profile.commaPause; // Comma - slight pause
+  return 1.0; // No pause
+}
+
+// Calculate how hard a word is to take in, independent of the punctuation around it
+export function getWordMultiplier(word: string, profile: TimingProfile): number {
+  const clean = stripNonLetters(word);
+  if (clean.length === 0) return 1.0;
+
+  if (/\p{N}/u.test(clean)) return profile.number;
+  if (clean.length >= 2 && /^\p{Lu}+s?$/u.test(clean) && /\p{Lu}{2}/u.test(clean)) return profile.acronym;
+
+  // CJK characters each carry about as much as a couple of alphabetic letters
+  const script = getScript(clean);
+  const length = Array.from(clean).length * (script === 'cjk' ? 2 : 1);
+
+  let multiplier = 1.0;
+  if (length <= 3) multiplier *= profile.shortWord;
+  if (length > profile.lengthThreshold) {
+    multiplier += (length - profile.lengthThreshold) * profile.perExtraLetter;
+  }
+  if (isRareWord(clean)) multiplier *= profile.rareWord;
+  return multiplier;
+}
+
+// Check if a word is outside the common word list. The list is English, so rarity
+// only applies to alphabetic scripts.
+export function isRareWord(word: string): boolean {
+  const clean = stripNonLetters(word);
+  return getScript(clean) === 'alphabetic' && Array.from(clean).length > 3 && !COMMON_WORDS.has(clean.toLowerCase());
+}
+
+// Total display time for the token at `index`, in milliseconds
+export function getTokenDelay(doc: ReaderDocument, index: number, wpm: number, profile: TimingProfile): number {
+  const baseDelay = (60 / wpm) * 1000;
+  const token = doc.tokens[index];
+  let multiplier = getPauseMultiplier(doc, index, profile) * getWordMultiplier(token.text, profile);
+  if (index > 0 && doc.tokens[index - 1].paragraph !== token.paragraph) multiplier *= profile.paragraphStart;
+  return baseDelay * multiplier;
+}